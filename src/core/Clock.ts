@@ -0,0 +1,125 @@
+export type TimerHandle = unknown;
+
+// Source of time and timers for the engine, swappable for tests
+export interface Clock {
+  now(): Date;
+  setTimer(callback: () => void, delayMs: number): TimerHandle;
+  clearTimer(handle: TimerHandle): void;
+}
+
+// Longer setTimeout delays overflow and fire after 1 ms
+export const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+interface SystemTimer {
+  timeout?: ReturnType<typeof setTimeout>;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+  // Delays past MAX_TIMER_DELAY_MS are covered by re-arming one timer after another
+  setTimer: (callback, delayMs) => {
+    const timer: SystemTimer = {};
+    const arm = (remainingMs: number) => {
+      const chunkMs = Math.min(Math.max(0, remainingMs), MAX_TIMER_DELAY_MS);
+      timer.timeout = setTimeout(() => {
+        if (remainingMs > chunkMs) {
+          arm(remainingMs - chunkMs);
+        } else {
+          callback();
+        }
+      }, chunkMs);
+    };
+    arm(delayMs);
+    return timer;
+  },
+  clearTimer: handle => clearTimeout((handle as SystemTimer).timeout)
+};
+
+// Resolves once the delay has passed, or early when the signal aborts
+export function sleep(clock: Clock, delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clock.clearTimer(handle);
+      resolve();
+    };
+    const handle = clock.setTimer(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+interface ManualTimer {
+  id: number;
+  dueAt: number;
+  callback: () => void;
+}
+
+// Clock that only moves when told to; timers fire during advance()
+export class ManualClock implements Clock {
+  private current: number;
+  private timers: ManualTimer[] = [];
+  private nextId = 1;
+
+  constructor(start: Date | number = 0) {
+    this.current = typeof start === 'number' ? start : start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  setTimer(callback: () => void, delayMs: number): TimerHandle {
+    const timer = { id: this.nextId++, dueAt: this.current + Math.max(0, delayMs), callback };
+    this.timers.push(timer);
+    return timer.id;
+  }
+
+  clearTimer(handle: TimerHandle): void {
+    this.timers = this.timers.filter(timer => timer.id !== handle);
+  }
+
+  // Move time forward, firing due timers in order and letting their async work settle
+  async advance(delayMs: number): Promise<void> {
+    const target = this.current + delayMs;
+
+    for (;;) {
+      await flushPromises();
+      const due = this.timers
+        .filter(timer => timer.dueAt <= target)
+        .sort((a, b) => a.dueAt - b.dueAt || a.id - b.id)[0];
+      if (!due) break;
+
+      this.timers = this.timers.filter(timer => timer !== due);
+      this.current = Math.max(this.current, due.dueAt);
+      due.callback();
+    }
+
+    this.current = target;
+    await flushPromises();
+  }
+
+  // Jump to the given time, firing everything due before it
+  async advanceTo(time: Date): Promise<void> {
+    await this.advance(Math.max(0, time.getTime() - this.current));
+  }
+
+  pendingTimers(): number {
+    return this.timers.length;
+  }
+
+  // When the earliest pending timer is due, if any
+  nextTimerAt(): Date | undefined {
+    if (this.timers.length === 0) return undefined;
+    return new Date(Math.min(...this.timers.map(timer => timer.dueAt)));
+  }
+}
+
+function flushPromises(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
@@ -0,0 +1,106 @@
+import { QueueFullError } from './errors.js';
+import { WorkflowLogger } from './handlers/StepHandler.js';
+
+export interface ExecutionQueueOptions {
+  // Instances executing at once across all workflows (unlimited by default)
+  maxActive?: number;
+  // Instances of one workflow executing at once; a number applies to every workflow
+  maxActivePerWorkflow?: number | Record<string, number>;
+  // Started instances that may wait for a free slot (unlimited by default)
+  maxQueued?: number;
+  // When the queue is full, make startWorkflow wait for room (default) or throw QueueFullError
+  onQueueFull?: 'wait' | 'reject';
+}
+
+interface QueuedRun {
+  workflowId: string;
+  run: () => Promise<void>;
+}
+
+// FIFO of instance runs with global and per-workflow concurrency caps. A run
+// whose workflow is at its cap is passed over until a slot of that workflow frees.
+export class ExecutionQueue {
+  private queued: QueuedRun[] = [];
+  private active = 0;
+  private activePerWorkflow = new Map<string, number>();
+  // Places in the queue promised to callers that are still preparing their run
+  private reserved = 0;
+  private roomWaiters: Array<() => void> = [];
+  private options: ExecutionQueueOptions;
+  private logger: WorkflowLogger;
+
+  constructor(options: ExecutionQueueOptions = {}, logger: WorkflowLogger = console) {
+    this.options = options;
+    this.logger = logger;
+  }
+
+  // Reserve a place in the queue, waiting for one or throwing QueueFullError when
+  // it is full. Follow with push() or release().
+  async reserve(): Promise<void> {
+    const maxQueued = this.options.maxQueued ?? Infinity;
+    while (this.queued.length + this.reserved >= maxQueued) {
+      if (this.options.onQueueFull === 'reject') {
+        throw new QueueFullError(maxQueued);
+      }
+      await new Promise<void>(resolve => this.roomWaiters.push(resolve));
+    }
+    this.reserved++;
+  }
+
+  release(): void {
+    this.reserved = Math.max(0, this.reserved - 1);
+    this.notifyRoom();
+  }
+
+  // Queue a run; `reserved` hands over a place taken with reserve()
+  push(workflowId: string, run: () => Promise<void>, reserved = false): void {
+    if (reserved) {
+      this.reserved = Math.max(0, this.reserved - 1);
+    }
+    this.queued.push({ workflowId, run });
+    this.drain();
+  }
+
+  getStats(): { active: number; queued: number } {
+    return { active: this.active, queued: this.queued.length };
+  }
+
+  private drain(): void {
+    const maxActive = this.options.maxActive ?? Infinity;
+
+    for (let i = 0; i < this.queued.length && this.active < maxActive; ) {
+      const next = this.queued[i];
+      if ((this.activePerWorkflow.get(next.workflowId) || 0) >= this.getWorkflowLimit(next.workflowId)) {
+        i++;
+        continue;
+      }
+
+      this.queued.splice(i, 1);
+      this.start(next);
+      this.notifyRoom();
+    }
+  }
+
+  private start(next: QueuedRun): void {
+    this.active++;
+    this.activePerWorkflow.set(next.workflowId, (this.activePerWorkflow.get(next.workflowId) || 0) + 1);
+
+    next.run()
+      .catch(error => this.logger.error(`Execution of workflow ${next.workflowId} failed:`, error))
+      .finally(() => {
+        this.active--;
+        this.activePerWorkflow.set(next.workflowId, this.activePerWorkflow.get(next.workflowId)! - 1);
+        this.drain();
+      });
+  }
+
+  private getWorkflowLimit(workflowId: string): number {
+    const limit = this.options.maxActivePerWorkflow;
+    if (typeof limit === 'number') return limit;
+    return limit?.[workflowId] ?? Infinity;
+  }
+
+  private notifyRoom(): void {
+    this.roomWaiters.shift()?.();
+  }
+}
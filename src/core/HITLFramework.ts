@@ -1,63 +1,283 @@
-import { WorkflowEngine } from './WorkflowEngine.js';
+import { WorkflowEngine, WorkflowEngineOptions, StartWorkflowOptions, MigrateInstanceOptions } from './WorkflowEngine.js';
 import { HITLInterface } from '../interfaces/HITLInterface.js';
-import { WorkflowDefinition } from '../types/workflow.js';
+import { WorkflowDefinition, ProvideInputOptions, WorkflowTrigger, WorkflowTriggerRecord } from '../types/workflow.js';
+import { WorkflowEvent, WorkflowEventType } from '../types/events.js';
+import { StepHandler, WorkflowLogger } from './handlers/StepHandler.js';
+import { HumanInputValidationError } from './errors.js';
+import { loadWorkflowDefinition, loadWorkflowDefinitions } from './loader.js';
+import { TriggerScheduler } from './TriggerScheduler.js';
+import { InstanceFilter, InstanceQuery } from './queries.js';
+import { InboxIdentity, InboxOptions } from './inbox.js';
+import { DiagramFormat, renderDiagram } from './diagram.js';
+import { systemClock } from './Clock.js';
+import { deepClone } from './readonly.js';
+import { InMemoryStateStore } from '../persistence/InMemoryStateStore.js';
+
+export interface HITLFrameworkOptions extends WorkflowEngineOptions {}
 
 export class HITLFramework {
   private engine: WorkflowEngine;
   private hitlInterface?: HITLInterface;
+  private triggers: TriggerScheduler;
+  private logger: WorkflowLogger;
 
-  constructor(hitlInterface?: HITLInterface) {
-    this.engine = new WorkflowEngine();
+  constructor(hitlInterface?: HITLInterface, options: HITLFrameworkOptions = {}) {
+    // Instances and triggers share one store
+    const store = options.store || new InMemoryStateStore();
+    this.logger = options.logger || console;
+    this.engine = new WorkflowEngine({ ...options, store });
+    this.triggers = new TriggerScheduler({
+      store,
+      clock: options.clock || systemClock,
+      logger: this.logger,
+      start: trigger => this.engine.startWorkflow(trigger.workflowId, deepClone(trigger.input || {}), { version: trigger.version })
+    });
     this.hitlInterface = hitlInterface;
     this.setupEventHandlers();
   }
 
   private setupEventHandlers(): void {
-    this.engine.on('human_input_required', async (event) => {
-      if (this.hitlInterface) {
-        await this.hitlInterface.requestInput(event.workflowId, event.data.humanInput);
-      }
-    });
+    this.forward('human_input_required', (hitl, event) =>
+      hitl.requestInput(event.workflowId, event.data.humanInput, event.data.humanInput.requestId));
 
-    this.engine.on('workflow_completed', async (event) => {
-      if (this.hitlInterface) {
-        await this.hitlInterface.notifyWorkflowComplete(event.workflowId, event.data.state);
+    this.forward('human_input_expired', async (hitl, event) => {
+      if (event.data.action === 'remind') {
+        await hitl.remindInput(event.workflowId, event.data.humanInput, event.data.humanInput.requestId);
       }
     });
 
-    this.engine.on('workflow_failed', async (event) => {
-      if (this.hitlInterface) {
-        await this.hitlInterface.notifyWorkflowError(event.workflowId, event.data.error);
+    this.forward('human_input_escalated', (hitl, event) =>
+      hitl.escalateInput(event.workflowId, event.data.humanInput, event.data.humanInput.requestId));
+
+    // Reassigned and delegated inputs reach their new assignees the same way
+    this.forward('human_input_reassigned', (hitl, event) =>
+      hitl.escalateInput(event.workflowId, event.data.humanInput, event.data.humanInput.requestId));
+
+    this.forward('workflow_cancelled', async (hitl, event) => {
+      for (const input of event.data.withdrawnInputs) {
+        await hitl.withdrawInput(event.workflowId, input, event.data.reason);
       }
     });
 
+    this.forward('workflow_completed', (hitl, event) =>
+      hitl.notifyWorkflowComplete(event.workflowId, event.data.state));
+
+    this.forward('workflow_failed', (hitl, event) =>
+      hitl.notifyWorkflowError(event.workflowId, event.data.error));
+
     // Handle human input from HITL interface
     if (this.hitlInterface) {
-      this.hitlInterface.on('human_input', async (workflowId: string, input: any) => {
-        await this.engine.provideHumanInput(workflowId, input);
+      const hitl = this.hitlInterface;
+      hitl.on('human_input', async (workflowId: string, input: any, options?: ProvideInputOptions) => {
+        try {
+          await this.engine.provideHumanInput(workflowId, input, options);
+        } catch (error) {
+          if (error instanceof HumanInputValidationError) {
+            // Ask again when the response did not fit the input
+            await this.report(`rejecting an answer for workflow instance ${workflowId}`, () =>
+              hitl.rejectInput(workflowId, error.input, error.input.requestId!, error.issues));
+          } else {
+            // E.g. a late answer, or one from someone who may not give it
+            this.logger.warn(`Answer for workflow instance ${workflowId} was not accepted:`, error);
+          }
+        }
       });
     }
   }
 
+  // Pass an engine event on to the HITL interface. Emitters do not wait for
+  // listeners, so failures are logged rather than thrown.
+  private forward(type: WorkflowEventType, handle: (hitl: HITLInterface, event: WorkflowEvent) => Promise<void>): void {
+    this.engine.on(type, async (event: WorkflowEvent) => {
+      if (this.hitlInterface) {
+        await this.report(`handling ${type} for workflow instance ${event.workflowId}`, () => handle(this.hitlInterface!, event));
+      }
+    });
+  }
+
+  private async report(action: string, call: () => Promise<void>): Promise<void> {
+    try {
+      await call();
+    } catch (error) {
+      this.logger.error(`HITL interface failed while ${action}:`, error);
+    }
+  }
+
   // Framework API methods
   registerWorkflow(workflow: WorkflowDefinition): void {
     this.engine.registerWorkflow(workflow);
   }
 
-  async startWorkflow(workflowId: string, initialData?: Record<string, any>): Promise<string> {
-    return await this.engine.startWorkflow(workflowId, initialData);
+  // Register a definition from a .json, .yaml or .yml file
+  async loadWorkflow(filePath: string): Promise<WorkflowDefinition> {
+    const workflow = await loadWorkflowDefinition(filePath, { stepTypes: this.engine.getStepTypes() });
+    this.engine.registerWorkflow(workflow);
+    return workflow;
+  }
+
+  // Register every definition file in a directory
+  async loadWorkflows(directory: string): Promise<WorkflowDefinition[]> {
+    const workflows = await loadWorkflowDefinitions(directory, { stepTypes: this.engine.getStepTypes() });
+    workflows.forEach(workflow => this.engine.registerWorkflow(workflow));
+    return workflows;
+  }
+
+  // Register handlers before the workflows that use their step type
+  registerStepHandler(type: string, handler: StepHandler): void {
+    this.engine.registerStepHandler(type, handler);
+  }
+
+  // Returns once the instance is queued; execution continues in the background
+  async startWorkflow(workflowId: string, initialData?: Record<string, any>, options?: StartWorkflowOptions): Promise<string> {
+    return await this.engine.startWorkflow(workflowId, initialData, options);
+  }
+
+  async waitForCompletion(instanceId: string) {
+    return await this.engine.waitForCompletion(instanceId);
+  }
+
+  getQueueStats() {
+    return this.engine.getQueueStats();
+  }
+
+  async migrateInstance(instanceId: string, options?: MigrateInstanceOptions) {
+    return await this.engine.migrateInstance(instanceId, options);
+  }
+
+  async provideInput(instanceId: string, input: any, options?: ProvideInputOptions): Promise<void> {
+    return await this.engine.provideHumanInput(instanceId, input, options);
+  }
+
+  // Pending inputs assigned to a user or one of their groups, across instances
+  getInbox(identity: InboxIdentity, options?: InboxOptions) {
+    return this.engine.getInbox(identity, options);
+  }
+
+  async claimInput(instanceId: string, requestId: string, identity: InboxIdentity) {
+    return await this.engine.claimHumanInput(instanceId, requestId, identity);
+  }
+
+  async releaseInput(instanceId: string, requestId: string, user: string) {
+    return await this.engine.releaseHumanInput(instanceId, requestId, user);
+  }
+
+  async reassignInput(instanceId: string, requestId: string, assignees: string[], reassignedBy?: string) {
+    return await this.engine.reassignHumanInput(instanceId, requestId, assignees, reassignedBy);
   }
 
-  async provideInput(instanceId: string, input: any): Promise<void> {
-    return await this.engine.provideHumanInput(instanceId, input);
+  async delegateInput(instanceId: string, requestId: string, from: InboxIdentity, to: string) {
+    return await this.engine.delegateHumanInput(instanceId, requestId, from, to);
+  }
+
+  async cancelWorkflow(instanceId: string, reason?: string): Promise<void> {
+    return await this.engine.cancelWorkflow(instanceId, reason);
+  }
+
+  async suspendWorkflow(instanceId: string, reason?: string): Promise<void> {
+    return await this.engine.suspendWorkflow(instanceId, reason);
+  }
+
+  async resumeWorkflow(instanceId: string): Promise<void> {
+    return await this.engine.resumeWorkflow(instanceId);
+  }
+
+  // Reload stored instances without executing anything
+  async rehydrate() {
+    return await this.engine.rehydrate();
+  }
+
+  // Reload stored instances and triggers, continue interrupted instances and
+  // re-prompt for pending input
+  async resumeAll(): Promise<string[]> {
+    const resumed = await this.engine.resumeAll();
+    await this.triggers.restore();
+
+    if (this.hitlInterface) {
+      // Paused or not: one branch can wait on a human while another runs
+      for (const instanceId of resumed) {
+        for (const pendingInput of this.engine.getPendingHumanInputs(instanceId)) {
+          await this.hitlInterface.requestInput(instanceId, pendingInput, pendingInput.requestId!);
+        }
+      }
+    }
+
+    return resumed;
+  }
+
+  // Start a workflow on a cron schedule, e.g. { id: 'weekly', workflowId: 'newsletter', cron: '0 9 * * 1' }.
+  // Adding a trigger with an existing id replaces it.
+  async addTrigger(trigger: WorkflowTrigger): Promise<WorkflowTriggerRecord> {
+    if (!this.engine.getWorkflowDefinition(trigger.workflowId, trigger.version)) {
+      throw new Error(`Workflow ${trigger.workflowId} not found`);
+    }
+    return await this.triggers.add(trigger);
+  }
+
+  async removeTrigger(triggerId: string): Promise<void> {
+    await this.triggers.remove(triggerId);
+  }
+
+  getTriggers(): WorkflowTriggerRecord[] {
+    return this.triggers.list();
+  }
+
+  // Stop firing triggers in this process, e.g. before shutting down
+  stopTriggers(): void {
+    this.triggers.stop();
+  }
+
+  // Append-only record of everything that happened to an instance
+  async getHistory(instanceId: string) {
+    return await this.engine.getHistory(instanceId);
+  }
+
+  async rebuildState(instanceId: string) {
+    return await this.engine.rebuildState(instanceId);
+  }
+
+  async verifyHistory(instanceId: string) {
+    return await this.engine.verifyHistory(instanceId);
   }
 
   getWorkflowState(instanceId: string) {
     return this.engine.getWorkflowState(instanceId);
   }
 
+  // Filter, sort and page stored instances
+  async listInstances(query?: InstanceQuery) {
+    return await this.engine.listInstances(query);
+  }
+
+  // Dependency graph of a workflow as Mermaid or Graphviz DOT source
+  exportWorkflowDiagram(workflowId: string, format: DiagramFormat = 'mermaid', version?: number): string {
+    const workflow = this.engine.getWorkflowDefinition(workflowId, version);
+    if (!workflow) {
+      throw new Error(`Workflow ${workflowId} not found`);
+    }
+    return renderDiagram(workflow, format);
+  }
+
+  // The instance's workflow graph with steps coloured by their status
+  exportInstanceDiagram(instanceId: string, format: DiagramFormat = 'mermaid'): string {
+    const state = this.engine.getWorkflowState(instanceId);
+    if (!state) {
+      throw new Error(`Workflow instance ${instanceId} not found`);
+    }
+    const workflow = this.engine.getWorkflowDefinition(state.workflowId, state.workflowVersion);
+    if (!workflow) {
+      throw new Error(`Workflow ${state.workflowId} version ${state.workflowVersion} not found`);
+    }
+    return renderDiagram(workflow, format, { state, pendingInputs: this.engine.getPendingHumanInputs(instanceId) });
+  }
+
+  // Instances per status, e.g. { paused: 3, failed: 1 }
+  async countInstances(filter?: InstanceFilter) {
+    return await this.engine.countInstances(filter);
+  }
+
+  // Every input the instance is waiting on; answer one with provideInput(id, value, { requestId })
   getPendingInput(instanceId: string) {
-    return this.engine.getPendingHumanInput(instanceId);
+    return this.engine.getPendingHumanInputs(instanceId);
   }
 
   // Event subscription
@@ -0,0 +1,47 @@
+import { Clock, TimerHandle } from './Clock.js';
+import { WorkflowLogger } from './handlers/StepHandler.js';
+
+// Keyed one-shot timers on top of a Clock; rescheduling a key replaces its timer
+export class Scheduler {
+  private timers = new Map<string, TimerHandle>();
+  private clock: Clock;
+  private logger: WorkflowLogger;
+
+  constructor(clock: Clock, logger: WorkflowLogger = console) {
+    this.clock = clock;
+    this.logger = logger;
+  }
+
+  schedule(key: string, at: Date, callback: () => void | Promise<void>): void {
+    this.cancel(key);
+
+    const delayMs = Math.max(0, at.getTime() - this.clock.now().getTime());
+    const handle = this.clock.setTimer(() => {
+      this.timers.delete(key);
+      Promise.resolve()
+        .then(callback)
+        .catch(error => this.logger.error(`Scheduled task ${key} failed:`, error));
+    }, delayMs);
+
+    this.timers.set(key, handle);
+  }
+
+  cancel(key: string): void {
+    const handle = this.timers.get(key);
+    if (handle !== undefined) {
+      this.clock.clearTimer(handle);
+      this.timers.delete(key);
+    }
+  }
+
+  has(key: string): boolean {
+    return this.timers.has(key);
+  }
+
+  cancelAll(): void {
+    for (const handle of Array.from(this.timers.values())) {
+      this.clock.clearTimer(handle);
+    }
+    this.timers.clear();
+  }
+}
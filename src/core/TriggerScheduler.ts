@@ -0,0 +1,104 @@
+import { WorkflowTrigger, WorkflowTriggerRecord } from '../types/workflow.js';
+import { WorkflowStateStore } from '../persistence/WorkflowStateStore.js';
+import { Clock } from './Clock.js';
+import { Scheduler } from './Scheduler.js';
+import { CronSchedule, parseCron, nextCronTime } from './cron.js';
+import { WorkflowLogger } from './handlers/StepHandler.js';
+
+export interface TriggerSchedulerOptions {
+  store: WorkflowStateStore;
+  clock: Clock;
+  logger: WorkflowLogger;
+  // Starts the triggered workflow and returns the new instance id
+  start(trigger: WorkflowTrigger): Promise<string>;
+}
+
+// Starts workflows on cron schedules. Every trigger is written through to the
+// store with its next run, so restore() picks the schedules up after a restart.
+export class TriggerScheduler {
+  private records = new Map<string, WorkflowTriggerRecord>();
+  private schedules = new Map<string, CronSchedule>();
+  private scheduler: Scheduler;
+  private options: TriggerSchedulerOptions;
+
+  constructor(options: TriggerSchedulerOptions) {
+    this.options = options;
+    this.scheduler = new Scheduler(options.clock, options.logger);
+  }
+
+  // Add or replace a trigger; throws on an invalid cron expression
+  async add(trigger: WorkflowTrigger): Promise<WorkflowTriggerRecord> {
+    const schedule = parseCron(trigger.cron);
+    const record: WorkflowTriggerRecord = {
+      trigger,
+      nextRunAt: nextCronTime(schedule, this.options.clock.now(), { utc: trigger.utc })
+    };
+
+    this.schedules.set(trigger.id, schedule);
+    this.records.set(trigger.id, record);
+    await this.options.store.saveTrigger(record);
+    this.schedule(trigger.id);
+    return record;
+  }
+
+  async remove(triggerId: string): Promise<void> {
+    this.scheduler.cancel(triggerId);
+    this.records.delete(triggerId);
+    this.schedules.delete(triggerId);
+    await this.options.store.deleteTrigger(triggerId);
+  }
+
+  list(): WorkflowTriggerRecord[] {
+    return Array.from(this.records.values());
+  }
+
+  // Reload stored triggers. A trigger that came due while the process was down
+  // runs once right away, then continues on its schedule.
+  async restore(): Promise<WorkflowTriggerRecord[]> {
+    for (const record of await this.options.store.loadTriggers()) {
+      try {
+        this.schedules.set(record.trigger.id, parseCron(record.trigger.cron));
+      } catch (error) {
+        this.options.logger.warn(`Cannot restore trigger ${record.trigger.id}:`, error);
+        continue;
+      }
+      this.records.set(record.trigger.id, record);
+      this.schedule(record.trigger.id);
+    }
+    return this.list();
+  }
+
+  // Cancel every timer; stored triggers are kept
+  stop(): void {
+    this.scheduler.cancelAll();
+  }
+
+  private schedule(triggerId: string): void {
+    const record = this.records.get(triggerId);
+    if (record) {
+      this.scheduler.schedule(triggerId, record.nextRunAt, () => this.fire(triggerId));
+    }
+  }
+
+  private async fire(triggerId: string): Promise<void> {
+    const record = this.records.get(triggerId);
+    const schedule = this.schedules.get(triggerId);
+    if (!record || !schedule) return;
+
+    const now = this.options.clock.now();
+    record.lastRunAt = now;
+    record.nextRunAt = nextCronTime(schedule, now, { utc: record.trigger.utc });
+    await this.options.store.saveTrigger(record);
+    this.schedule(triggerId);
+
+    // A failed start is logged; the trigger keeps its schedule
+    try {
+      record.lastInstanceId = await this.options.start(record.trigger);
+      if (this.records.get(triggerId) === record) {
+        await this.options.store.saveTrigger(record);
+      }
+    } catch (error) {
+      this.options.logger.error(`Trigger ${triggerId} could not start workflow ${record.trigger.workflowId}:`, error);
+    }
+  }
+}
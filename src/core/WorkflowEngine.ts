@@ -1,199 +1,1277 @@
 import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
-import { WorkflowStep, WorkflowDefinition, WorkflowState, StepResult, HumanInput } from '../types/workflow.js';
+import { WorkflowStep, WorkflowDefinition, WorkflowState, StepResult, HumanInput, WorkflowMigration, ProvideInputOptions, ApprovalResponse, ApproverResponse, QuorumResponse } from '../types/workflow.js';
 import { WorkflowEvent } from '../types/events.js';
+import { WorkflowStateStore } from '../persistence/WorkflowStateStore.js';
+import { InMemoryStateStore } from '../persistence/InMemoryStateStore.js';
+import { evaluateCondition } from './conditions.js';
+import { Clock, systemClock, sleep } from './Clock.js';
+import { isRetryable, getRetryDelay } from './retry.js';
+import { Scheduler } from './Scheduler.js';
+import { ExecutionQueue, ExecutionQueueOptions } from './ExecutionQueue.js';
+import { InstanceFilter, InstanceQuery, InstancePage, WorkflowStatus, queryInstances, countInstancesByStatus } from './queries.js';
+import { validateWorkflow } from './validation.js';
+import { WorkflowValidationError, HumanInputValidationError } from './errors.js';
+import { parseHumanResponse } from './responses.js';
+import { QuorumOutcome, evaluateQuorum, getApprovers } from './quorum.js';
+import { InboxIdentity, InboxOptions, InboxTask, isAssignedTo, isInInbox } from './inbox.js';
+import { resolveTemplates, createTemplateContext } from './templating.js';
+import { createReadonlyView, deepClone } from './readonly.js';
+import { STEP_HISTORY_KEY, getIteration, markStepCompleted, resetStepsForIteration } from './transitions.js';
+import { replayHistory, verifyReplay } from './replay.js';
+import { StepHandler, StepContext, WorkflowLogger } from './handlers/StepHandler.js';
+import { HumanStepHandler } from './handlers/HumanStepHandler.js';
+import { SystemStepHandler } from './handlers/SystemStepHandler.js';
+import { AgentStepHandler } from './handlers/AgentStepHandler.js';
+import { SubWorkflowStepHandler } from './handlers/SubWorkflowStepHandler.js';
+import { DelayStepHandler } from './handlers/DelayStepHandler.js';
+import { QualityCheckStepHandler } from './handlers/QualityCheckStepHandler.js';
+import { LLMManager } from '../quality/llm/LLMManager.js';
+import { QualityEngine } from '../quality/QualityEngine.js';
+
+const DEFAULT_MAX_ITERATIONS = 3;
+
+export interface WorkflowEngineOptions {
+  store?: WorkflowStateStore;
+  // Default cap on concurrently executing steps per instance
+  maxConcurrency?: number;
+  clock?: Clock;
+  logger?: WorkflowLogger;
+  // Limits on instances executing at once, and on how many may wait to start
+  queue?: ExecutionQueueOptions;
+  // Source of instance, request and event ids (random UUIDs by default)
+  idGenerator?: () => string;
+  // Runs the prompts of built-in `agent` steps
+  llm?: LLMManager;
+  // Assesses content for `quality_check` steps (a default engine otherwise)
+  quality?: QualityEngine;
+}
+
+export interface StartWorkflowOptions {
+  // Pin the instance to this version instead of the latest
+  version?: number;
+}
+
+export interface MigrateInstanceOptions {
+  // Defaults to the latest registered version
+  toVersion?: number;
+  migrate?: WorkflowMigration;
+}
 
 export class WorkflowEngine extends EventEmitter {
-  private workflows: Map<string, WorkflowDefinition> = new Map();
+  // Every registered version of each workflow, keyed by id then version
+  private workflows: Map<string, Map<number, WorkflowDefinition>> = new Map();
   private states: Map<string, WorkflowState> = new Map();
-  private pendingHumanInputs: Map<string, HumanInput> = new Map();
+  // Inputs each instance is waiting on, keyed by instance id then request id
+  private pendingHumanInputs: Map<string, Map<string, HumanInput>> = new Map();
+  private executingSteps: Map<string, Set<string>> = new Map();
+  private store: WorkflowStateStore;
+  private maxConcurrency: number;
+  private clock: Clock;
+  private scheduler: Scheduler;
+  private logger: WorkflowLogger;
+  private stepHandlers: Map<string, StepHandler> = new Map();
+  private abortControllers: Map<string, AbortController> = new Map();
+  private queue: ExecutionQueue;
+  private generateId: () => string;
+  // Callers of waitForCompletion, by instance id
+  private completionWaiters: Map<string, Array<(state: WorkflowState) => void>> = new Map();
 
-  // Register a workflow definition
+  constructor(options: WorkflowEngineOptions = {}) {
+    super();
+    this.store = options.store || new InMemoryStateStore();
+    this.maxConcurrency = options.maxConcurrency || Infinity;
+    this.clock = options.clock || systemClock;
+    this.logger = options.logger || console;
+    this.scheduler = new Scheduler(this.clock, this.logger);
+    this.queue = new ExecutionQueue(options.queue, this.logger);
+    this.generateId = options.idGenerator || uuidv4;
+    this.registerBuiltInStepHandlers(options);
+  }
+
+  // Register a workflow definition; throws WorkflowValidationError if it is invalid
   registerWorkflow(workflow: WorkflowDefinition): void {
-    this.workflows.set(workflow.id, workflow);
+    const errors = validateWorkflow(workflow, { stepTypes: this.getStepTypes() });
+    if (errors.length > 0) {
+      throw new WorkflowValidationError(workflow?.id ?? 'unknown', errors);
+    }
+
+    const version = workflow.version ?? 1;
+    const versions = this.workflows.get(workflow.id) || new Map<number, WorkflowDefinition>();
+    if (versions.has(version)) {
+      throw new Error(`Workflow ${workflow.id} version ${version} is already registered; register a new version instead`);
+    }
+
+    versions.set(version, workflow);
+    this.workflows.set(workflow.id, versions);
+  }
+
+  // A specific version of a workflow, or the latest one
+  getWorkflowDefinition(workflowId: string, version?: number): WorkflowDefinition | undefined {
+    const versions = this.workflows.get(workflowId);
+    if (!versions) return undefined;
+    return versions.get(version ?? Math.max(...Array.from(versions.keys())));
+  }
+
+  getWorkflowVersions(workflowId: string): number[] {
+    return Array.from(this.workflows.get(workflowId)?.keys() || []).sort((a, b) => a - b);
+  }
+
+  // Move a paused, waiting or suspended instance onto another version of its workflow (the latest by default).
+  // The migrate hook (or the target definition's own `migrate`) may adjust the state first.
+  async migrateInstance(instanceId: string, options: MigrateInstanceOptions = {}): Promise<WorkflowState> {
+    const state = this.states.get(instanceId);
+    if (!state) {
+      throw new Error(`Workflow instance ${instanceId} not found`);
+    }
+    if (state.status !== 'paused' && state.status !== 'waiting' && state.status !== 'suspended') {
+      throw new Error(`Only paused, waiting or suspended instances can be migrated; ${instanceId} is ${state.status}`);
+    }
+
+    const target = this.getWorkflowDefinition(state.workflowId, options.toVersion);
+    if (!target) {
+      throw new Error(`Workflow ${state.workflowId} version ${options.toVersion ?? 'latest'} not found`);
+    }
+
+    const fromVersion = state.workflowVersion;
+    const toVersion = target.version ?? 1;
+    const migrate = options.migrate || target.migrate;
+
+    const migrated = deepClone(state);
+    migrated.workflowVersion = toVersion;
+    if (migrate) {
+      Object.assign(migrated, migrate(migrated, fromVersion, toVersion) || {});
+    }
+
+    // The steps the instance is waiting on must still exist after migration
+    const missing = migrated.currentStepIds.filter(id => !target.steps.some(step => step.id === id));
+    if (missing.length > 0) {
+      throw new Error(`Cannot migrate ${instanceId} to version ${toVersion}: steps ${missing.join(', ')} do not exist there`);
+    }
+
+    Object.assign(state, migrated, { updatedAt: this.clock.now() });
+    await this.persist(instanceId);
+    this.emitEvent(instanceId, 'workflow_migrated', { fromVersion, toVersion, state });
+
+    // The new version may have steps that can already run
+    this.continueInstance(instanceId);
+
+    return state;
+  }
+
+  // The definition an instance is pinned to
+  private getInstanceDefinition(state: WorkflowState): WorkflowDefinition | undefined {
+    return this.workflows.get(state.workflowId)?.get(state.workflowVersion);
+  }
+
+  // Create a workflow instance and queue it for execution. Resolves with the
+  // instance id once it is queued; use waitForCompletion to wait for the outcome.
+  async startWorkflow(workflowId: string, initialData?: Record<string, any>, options: StartWorkflowOptions = {}): Promise<string> {
+    await this.queue.reserve();
+
+    let instanceId: string;
+    try {
+      instanceId = await this.createInstance(workflowId, initialData, options);
+    } catch (error) {
+      this.queue.release();
+      throw error;
+    }
+
+    // Start execution
+    this.queue.push(workflowId, () => this.executeNextStep(instanceId), true);
+    
+    return instanceId;
   }
 
-  // Start a new workflow instance
-  async startWorkflow(workflowId: string, initialData?: Record<string, any>): Promise<string> {
-    const workflow = this.workflows.get(workflowId);
+  // Resolves with the final state once the instance has completed, failed
+  // (after any compensation) or been cancelled
+  waitForCompletion(instanceId: string): Promise<WorkflowState> {
+    const state = this.states.get(instanceId);
+    if (!state) {
+      return Promise.reject(new Error(`Workflow instance ${instanceId} not found`));
+    }
+    if (this.isSettled(state)) {
+      return Promise.resolve(state);
+    }
+
+    return new Promise(resolve => {
+      const waiters = this.completionWaiters.get(instanceId) || [];
+      waiters.push(resolve);
+      this.completionWaiters.set(instanceId, waiters);
+    });
+  }
+
+  getQueueStats(): { active: number; queued: number } {
+    return this.queue.getStats();
+  }
+
+  // Create and persist an instance without executing anything yet
+  private async createInstance(
+    workflowId: string,
+    initialData?: Record<string, any>,
+    options: StartWorkflowOptions = {},
+    parent?: { instanceId: string; stepId: string }
+  ): Promise<string> {
+    const workflow = this.getWorkflowDefinition(workflowId, options.version);
     if (!workflow) {
-      throw new Error(`Workflow ${workflowId} not found`);
+      throw new Error(options.version === undefined
+        ? `Workflow ${workflowId} not found`
+        : `Workflow ${workflowId} version ${options.version} not found`);
     }
 
-    const instanceId = uuidv4();
+    const instanceId = this.generateId();
     const state: WorkflowState = {
       id: instanceId,
       workflowId,
+      workflowVersion: workflow.version ?? 1,
+      currentStepIds: [],
       completedSteps: [],
-      stepData: initialData || {},
+      skippedSteps: [],
+      deferredSteps: [],
+      waitingSteps: {},
+      compensations: {},
+      stepAttempts: {},
+      iterations: {},
+      input: deepClone(initialData || {}),
+      stepData: deepClone(initialData || {}),
       status: 'pending',
-      createdAt: new Date(),
-      updatedAt: new Date()
+      parentInstanceId: parent?.instanceId,
+      parentStepId: parent?.stepId,
+      childInstances: {},
+      createdAt: this.clock.now(),
+      updatedAt: this.clock.now()
     };
 
     this.states.set(instanceId, state);
-    
-    // Start execution
-    await this.executeNextStep(instanceId);
-    
+    await this.persist(instanceId);
+    this.emitEvent(instanceId, 'workflow_started', { state, parentInstanceId: parent?.instanceId });
+
     return instanceId;
   }
 
-  // Execute the next available step
+  // Work outside a running step (answers, timers, resumes, child instances) goes
+  // through the queue, so it counts against the concurrency caps like a start
+  private continueInstance(instanceId: string): void {
+    this.enqueue(instanceId, () => this.executeNextStep(instanceId));
+  }
+
+  private enqueue(instanceId: string, run: () => Promise<void>): void {
+    const state = this.states.get(instanceId);
+    if (state) {
+      this.queue.push(state.workflowId, run);
+    }
+  }
+
+  // Advance the instance; an unexpected exception fails it rather than leaving it running
   private async executeNextStep(instanceId: string): Promise<void> {
+    try {
+      await this.startReadySteps(instanceId);
+    } catch (error) {
+      await this.failOnError(instanceId, undefined, error);
+    }
+  }
+
+  // Start every ready step, up to the workflow's concurrency limit, and
+  // complete the instance once nothing is left to run or wait for
+  private async startReadySteps(instanceId: string): Promise<void> {
     const state = this.states.get(instanceId);
-    const workflow = state ? this.workflows.get(state.workflowId) : undefined;
+    const workflow = state ? this.getInstanceDefinition(state) : undefined;
     
     if (!state || !workflow) return;
+    // Completed too: parallel answers may each try to finish the instance
+    if (this.isFinished(state) || state.status === 'suspended') return;
+
+    const skippedSteps = this.skipUnreachableSteps(workflow, state);
+    if (skippedSteps.length > 0) {
+      state.updatedAt = this.clock.now();
+      await this.persist(instanceId);
+      for (const step of skippedSteps) {
+        this.emitEvent(instanceId, 'step_skipped', { stepId: step.id, step });
+      }
+    }
+
+    const executing = this.getExecutingSteps(instanceId);
+    const readySteps = this.findReadySteps(workflow, state);
+
+    if (readySteps.length === 0) {
+      if (executing.size > 0) return;
+
+      if (state.currentStepIds.length > 0) {
+        // Only steps waiting on a human, a deferred result or a timer are left in flight
+        const idleStatus = this.getIdleStatus(state);
+        if (state.status !== idleStatus) {
+          state.status = idleStatus;
+          state.updatedAt = this.clock.now();
+          await this.persist(instanceId);
+        }
+        return;
+      }
 
-    // Find next step to execute
-    const nextStep = this.findNextStep(workflow, state);
-    if (!nextStep) {
       // Workflow complete
+      this.executingSteps.delete(instanceId);
       state.status = 'completed';
-      state.updatedAt = new Date();
+      state.currentStepIds = [];
+      state.updatedAt = this.clock.now();
+      await this.persist(instanceId);
       this.emitEvent(instanceId, 'workflow_completed', { state });
+      await this.notifyParent(state);
+      this.resolveCompletion(state);
       return;
     }
 
-    state.currentStepId = nextStep.id;
+    const limit = workflow.maxConcurrency || this.maxConcurrency;
+    const batch = readySteps.slice(0, Math.max(0, limit - executing.size));
+    if (batch.length === 0) return;
+
+    // Claim the batch synchronously so concurrent callers never start a step twice
+    for (const step of batch) {
+      executing.add(step.id);
+      state.currentStepIds.push(step.id);
+    }
     state.status = 'running';
-    state.updatedAt = new Date();
+    state.updatedAt = this.clock.now();
+    await this.persist(instanceId);
 
-    this.emitEvent(instanceId, 'step_started', { stepId: nextStep.id, step: nextStep });
+    await Promise.all(batch.map(step => this.runStep(instanceId, step).catch(error => {
+      executing.delete(step.id);
+      return this.failOnError(instanceId, step.id, error);
+    })));
+  }
 
-    try {
-      const result = await this.executeStep(nextStep, state);
+  // Execute one step and record its outcome, then schedule whatever it unblocked
+  private async runStep(instanceId: string, step: WorkflowStep): Promise<void> {
+    const state = this.states.get(instanceId);
+    if (!state) return;
+
+    this.emitEvent(instanceId, 'step_started', { stepId: step.id, step, iteration: getIteration(state, step.id) });
+
+    const result = await this.executeWithRetry(instanceId, step, state);
+
+    this.getExecutingSteps(instanceId).delete(step.id);
+
+    // Another branch failed, or the instance was cancelled, while this step was running
+    if (this.isStopped(state)) return;
+
+    if (!result) {
+      // Suspended while waiting to retry; the step runs again once the instance resumes
+      state.currentStepIds = state.currentStepIds.filter(id => id !== step.id);
+      state.updatedAt = this.clock.now();
+      await this.persist(instanceId);
+    } else if (result.requiresHuman) {
+      // Pause this branch for human input; the step stays current until answered
+      const humanInput = result.requiresHuman;
+      humanInput.requestId = this.generateId();
+      // Kept alongside the answer, e.g. the assessment a reviewer is deciding on
+      if (result.data) {
+        state.stepData[step.id] = result.data;
+      }
+      if (humanInput.timeout) {
+        humanInput.deadline = new Date(this.clock.now().getTime() + humanInput.timeout.afterMs);
+      }
+      this.getPendingInputs(instanceId).set(humanInput.requestId, humanInput);
+      this.scheduleDeadline(instanceId, humanInput.requestId);
+      if (state.status !== 'suspended') {
+        state.status = this.getExecutingSteps(instanceId).size > 0 ? 'running' : this.getIdleStatus(state);
+      }
+      state.updatedAt = this.clock.now();
+      await this.persist(instanceId);
+      this.emitEvent(instanceId, 'human_input_required', { 
+        humanInput: result.requiresHuman,
+        result: result.data,
+        parentInstanceId: state.parentInstanceId,
+        state 
+      });
+
+      // Continue with any other branch this freed a slot for
+      await this.executeNextStep(instanceId);
+    } else if (result.deferred) {
+      // The step finishes later through completeDeferredStep (e.g. when its child workflow does)
+      if (result.data) {
+        state.stepData[step.id] = result.data;
+      }
+      state.deferredSteps.push(step.id);
+      if (state.status !== 'suspended') {
+        state.status = this.getExecutingSteps(instanceId).size > 0 ? 'running' : this.getIdleStatus(state);
+      }
+      state.updatedAt = this.clock.now();
+      await this.persist(instanceId);
+      this.emitEvent(instanceId, 'step_deferred', {
+        stepId: step.id,
+        result: result.data,
+        childInstanceId: state.childInstances[step.id]
+      });
+
+      // A child started by this step only runs once the parent is waiting for it
+      const childId = state.childInstances[step.id];
+      if (childId && this.states.get(childId)?.status === 'pending') {
+        this.continueInstance(childId);
+      }
+      await this.executeNextStep(instanceId);
+    } else if (result.success && result.waitUntil) {
+      // Park the step until its time comes; the timer survives restarts through the state
+      state.waitingSteps[step.id] = result.waitUntil;
+      if (state.status !== 'suspended') {
+        state.status = this.getExecutingSteps(instanceId).size > 0 ? 'running' : this.getIdleStatus(state);
+      }
+      state.updatedAt = this.clock.now();
+      await this.persist(instanceId);
+      this.emitEvent(instanceId, 'step_waiting', { stepId: step.id, until: result.waitUntil });
+
+      this.scheduleWait(instanceId, step.id);
+      await this.executeNextStep(instanceId);
+    } else if (result.success) {
+      // Step completed successfully
+      if (result.data) {
+        state.stepData[step.id] = result.data;
+      }
+      markStepCompleted(state, step.id);
+      state.updatedAt = this.clock.now();
+      await this.persist(instanceId);
       
-      if (result.requiresHuman) {
-        // Pause for human input
-        state.status = 'paused';
-        state.updatedAt = new Date();
-        this.pendingHumanInputs.set(instanceId, result.requiresHuman);
-        this.emitEvent(instanceId, 'human_input_required', { 
-          humanInput: result.requiresHuman,
-          state 
-        });
-      } else if (result.success) {
-        // Step completed successfully
-        state.completedSteps.push(nextStep.id);
-        if (result.data) {
-          state.stepData[nextStep.id] = result.data;
+      this.emitEvent(instanceId, 'step_completed', { 
+        stepId: step.id, 
+        iteration: getIteration(state, step.id),
+        result: result.data 
+      });
+      
+      // Loop back or continue to next steps
+      await this.applyLoop(instanceId, step);
+      await this.executeNextStep(instanceId);
+    } else {
+      await this.failWorkflow(instanceId, step.id, result.error);
+    }
+  }
+
+  // Execute a step, retrying failures according to its retry policy. Resolves
+  // undefined when the instance was suspended during a backoff.
+  private async executeWithRetry(instanceId: string, step: WorkflowStep, state: WorkflowState): Promise<StepResult | undefined> {
+    for (;;) {
+      const attempt = (state.stepAttempts[step.id] || 0) + 1;
+      state.stepAttempts[step.id] = attempt;
+
+      let result: StepResult;
+      try {
+        result = await this.executeStep(step, state);
+      } catch (error) {
+        result = {
+          stepId: step.id,
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+      }
+
+      const policy = step.retry;
+      if (result.success || !policy || this.isStopped(state)) return result;
+      if (attempt >= policy.maxAttempts || !isRetryable(policy, result.error)) return result;
+
+      const delayMs = getRetryDelay(policy, attempt);
+      state.updatedAt = this.clock.now();
+      await this.persist(instanceId);
+      this.emitEvent(instanceId, 'step_retrying', {
+        stepId: step.id,
+        attempt,
+        maxAttempts: policy.maxAttempts,
+        delayMs,
+        error: result.error
+      });
+
+      // Cancelling or failing the instance cuts the backoff short
+      await sleep(this.clock, delayMs, this.getAbortController(instanceId).signal);
+      if (this.isStopped(state)) return result;
+      if (state.status === 'suspended') return undefined;
+    }
+  }
+
+  // Finish a step whose handler returned `deferred`
+  async completeDeferredStep(instanceId: string, stepId: string, result: StepResult): Promise<void> {
+    const state = this.states.get(instanceId);
+    if (!state || !state.deferredSteps.includes(stepId)) {
+      throw new Error(`Step ${stepId} of workflow instance ${instanceId} is not waiting for a result`);
+    }
+    if (this.isStopped(state)) return;
+
+    state.deferredSteps = state.deferredSteps.filter(id => id !== stepId);
+
+    if (!result.success) {
+      await this.failWorkflow(instanceId, stepId, result.error);
+      return;
+    }
+
+    if (result.data) {
+      state.stepData[stepId] = result.data;
+    }
+    markStepCompleted(state, stepId);
+    state.updatedAt = this.clock.now();
+    await this.persist(instanceId);
+
+    this.emitEvent(instanceId, 'step_completed', {
+      stepId,
+      iteration: getIteration(state, stepId),
+      result: result.data
+    });
+
+    const step = this.getInstanceDefinition(state)?.steps.find(candidate => candidate.id === stepId);
+    if (step) {
+      await this.applyLoop(instanceId, step);
+    }
+    this.continueInstance(instanceId);
+  }
+
+  // Finish a waiting step once its time has come
+  private async completeWaitingStep(instanceId: string, stepId: string): Promise<void> {
+    const state = this.states.get(instanceId);
+    const until = state?.waitingSteps[stepId];
+    if (!state || !until || this.isStopped(state) || state.status === 'suspended') return;
+
+    delete state.waitingSteps[stepId];
+    state.stepData[stepId] = { waitedUntil: until };
+    markStepCompleted(state, stepId);
+    state.status = 'running';
+    state.updatedAt = this.clock.now();
+    await this.persist(instanceId);
+
+    this.emitEvent(instanceId, 'step_completed', {
+      stepId,
+      iteration: getIteration(state, stepId),
+      result: state.stepData[stepId]
+    });
+
+    const step = this.getInstanceDefinition(state)?.steps.find(candidate => candidate.id === stepId);
+    if (step) {
+      await this.applyLoop(instanceId, step);
+    }
+    await this.executeNextStep(instanceId);
+  }
+
+  private scheduleWait(instanceId: string, stepId: string): void {
+    const state = this.states.get(instanceId);
+    const until = state?.waitingSteps[stepId];
+    if (!state || !until || state.status === 'suspended' || this.isFinished(state)) return;
+
+    this.scheduler.schedule(`wait:${instanceId}:${stepId}`, until, () => this.enqueue(instanceId, () => this.completeWaitingStep(instanceId, stepId)));
+  }
+
+  private scheduleWaits(instanceId: string): void {
+    for (const stepId of Object.keys(this.states.get(instanceId)?.waitingSteps || {})) {
+      this.scheduleWait(instanceId, stepId);
+    }
+  }
+
+  private cancelWaits(instanceId: string): void {
+    for (const stepId of Object.keys(this.states.get(instanceId)?.waitingSteps || {})) {
+      this.scheduler.cancel(`wait:${instanceId}:${stepId}`);
+    }
+  }
+
+  // Create a child instance for a `workflow` step; it starts once the step is deferred
+  private async startChildWorkflow(
+    parent: WorkflowState,
+    step: WorkflowStep,
+    workflowId: string,
+    input: Record<string, any>,
+    version?: number
+  ): Promise<string> {
+    const childId = await this.createInstance(workflowId, deepClone(input), { version }, { instanceId: parent.id, stepId: step.id });
+    parent.childInstances[step.id] = childId;
+    return childId;
+  }
+
+  // Hand a finished child's outcome to the parent step waiting for it
+  private async notifyParent(child: WorkflowState): Promise<void> {
+    const parent = child.parentInstanceId ? this.states.get(child.parentInstanceId) : undefined;
+    const stepId = child.parentStepId;
+    if (!parent || !stepId || parent.childInstances[stepId] !== child.id) return;
+    if (!parent.deferredSteps.includes(stepId)) return;
+
+    if (child.status === 'completed') {
+      const { [STEP_HISTORY_KEY]: _history, ...output } = child.stepData;
+      await this.completeDeferredStep(parent.id, stepId, {
+        stepId,
+        success: true,
+        data: { childInstanceId: child.id, output }
+      });
+    } else {
+      await this.completeDeferredStep(parent.id, stepId, {
+        stepId,
+        success: false,
+        error: `Child workflow ${child.id} ${child.status}${child.cancelReason ? `: ${child.cancelReason}` : ''}`
+      });
+    }
+  }
+
+  // After a step completes, jump back to its loop target when the loop condition holds.
+  // The target and every step downstream of it run again in a new iteration.
+  private async applyLoop(instanceId: string, step: WorkflowStep): Promise<void> {
+    const state = this.states.get(instanceId);
+    const workflow = state ? this.getInstanceDefinition(state) : undefined;
+    const loop = step.loop;
+    if (!state || !workflow || !loop || this.isStopped(state)) return;
+    if (!evaluateCondition(loop.when, state.stepData)) return;
+
+    const iteration = getIteration(state, loop.to) + 1;
+    const maxIterations = loop.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+    if (iteration >= maxIterations) {
+      if (loop.onExceeded === 'continue') return;
+      await this.failWorkflow(instanceId, step.id, `Step ${loop.to} reached its maximum of ${maxIterations} iterations`);
+      return;
+    }
+
+    const resetSteps = this.findDownstreamSteps(workflow, loop.to);
+    resetStepsForIteration(state, resetSteps);
+    state.updatedAt = this.clock.now();
+    await this.persist(instanceId);
+
+    this.emitEvent(instanceId, 'step_looped', {
+      stepId: step.id,
+      to: loop.to,
+      iteration,
+      resetSteps
+    });
+  }
+
+  // The given step plus every step that transitively depends on it
+  private findDownstreamSteps(workflow: WorkflowDefinition, stepId: string): string[] {
+    const downstream = [stepId];
+    for (let i = 0; i < downstream.length; i++) {
+      for (const step of workflow.steps) {
+        if (step.dependencies?.includes(downstream[i]) && !downstream.includes(step.id)) {
+          downstream.push(step.id);
         }
-        state.updatedAt = new Date();
-        
-        this.emitEvent(instanceId, 'step_completed', { 
-          stepId: nextStep.id, 
-          result: result.data 
-        });
-        
-        // Continue to next step
-        await this.executeNextStep(instanceId);
+      }
+    }
+    return downstream;
+  }
+
+  // Exceptions outside a step handler, e.g. from a store or an event listener
+  private async failOnError(instanceId: string, stepId: string | undefined, error: unknown): Promise<void> {
+    const state = this.states.get(instanceId);
+    if (!state || this.isFinished(state)) {
+      this.logger.error(`Workflow instance ${instanceId} threw after it finished:`, error);
+      return;
+    }
+    await this.failWorkflow(instanceId, stepId, error instanceof Error ? error.message : String(error));
+  }
+
+  // Mark the instance failed; in-flight branches are discarded when they return
+  private async failWorkflow(instanceId: string, stepId: string | undefined, error?: string): Promise<void> {
+    const state = this.states.get(instanceId);
+    if (!state) return;
+
+    state.status = 'failed';
+    state.updatedAt = this.clock.now();
+    this.clearPendingHumanInputs(instanceId);
+    this.cancelWaits(instanceId);
+    this.abortInstance(instanceId, error || 'Workflow failed');
+    await this.persist(instanceId);
+    this.emitEvent(instanceId, 'workflow_failed', { 
+      stepId, 
+      error 
+    });
+    await this.cancelChildren(state, 'Parent workflow failed');
+    await this.compensate(instanceId);
+    await this.notifyParent(state);
+    this.resolveCompletion(state);
+  }
+
+  // Undo completed work after a failure: run the compensation of every completed
+  // step in reverse dependency order, recording each outcome on the state
+  private async compensate(instanceId: string): Promise<void> {
+    const state = this.states.get(instanceId);
+    const workflow = state ? this.getInstanceDefinition(state) : undefined;
+    if (!state || !workflow) return;
+
+    const steps = this.getDependencyOrder(workflow)
+      .reverse()
+      .filter(step => step.compensation && state.completedSteps.includes(step.id) && !state.compensations[step.id]);
+    if (steps.length === 0 && state.status !== 'compensating') return;
+
+    state.status = 'compensating';
+    state.updatedAt = this.clock.now();
+    await this.persist(instanceId);
+
+    for (const step of steps) {
+      const compensation = step.compensation!;
+      this.emitEvent(instanceId, 'compensation_started', { stepId: step.id, type: compensation.type });
+
+      const compensationStep: WorkflowStep = {
+        id: step.id,
+        name: `Compensate ${step.name}`,
+        type: compensation.type,
+        config: compensation.config || {}
+      };
+
+      let result: StepResult;
+      try {
+        result = await this.executeStep(compensationStep, state);
+      } catch (error) {
+        result = { stepId: step.id, success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+      if (result.success && (result.requiresHuman || result.deferred)) {
+        result = { stepId: step.id, success: false, error: 'Compensations must finish without waiting for input' };
+      }
+
+      state.compensations[step.id] = result.success
+        ? { status: 'completed', data: result.data, completedAt: this.clock.now() }
+        : { status: 'failed', error: result.error, completedAt: this.clock.now() };
+      state.updatedAt = this.clock.now();
+      await this.persist(instanceId);
+
+      if (result.success) {
+        this.emitEvent(instanceId, 'compensation_completed', { stepId: step.id, result: result.data });
       } else {
-        // Step failed
-        state.status = 'failed';
-        state.updatedAt = new Date();
-        this.emitEvent(instanceId, 'workflow_failed', { 
-          stepId: nextStep.id, 
-          error: result.error 
-        });
+        this.emitEvent(instanceId, 'compensation_failed', { stepId: step.id, error: result.error });
       }
-    } catch (error) {
-      state.status = 'failed';
-      state.updatedAt = new Date();
-      this.emitEvent(instanceId, 'workflow_failed', { 
-        stepId: nextStep.id, 
-        error: error instanceof Error ? error.message : 'Unknown error' 
-      });
     }
+
+    // Keep going past a failed compensation so as much as possible is undone
+    const failed = Object.values(state.compensations).some(outcome => outcome.status === 'failed');
+    state.status = failed ? 'compensation_failed' : 'compensated';
+    state.updatedAt = this.clock.now();
+    await this.persist(instanceId);
+    this.emitEvent(instanceId, 'workflow_compensated', { status: state.status, compensations: state.compensations });
+  }
+
+  // Steps ordered so every step comes after its dependencies
+  private getDependencyOrder(workflow: WorkflowDefinition): WorkflowStep[] {
+    const ordered: WorkflowStep[] = [];
+    const visited = new Set<string>();
+
+    const visit = (step: WorkflowStep) => {
+      if (visited.has(step.id)) return;
+      visited.add(step.id);
+      for (const dependency of step.dependencies || []) {
+        const dependencyStep = workflow.steps.find(candidate => candidate.id === dependency);
+        if (dependencyStep) visit(dependencyStep);
+      }
+      ordered.push(step);
+    };
+
+    workflow.steps.forEach(visit);
+    return ordered;
   }
 
-  // Provide human input and resume workflow
-  async provideHumanInput(instanceId: string, input: any): Promise<void> {
+  // Provide human input and resume workflow. `options.requestId` picks the input
+  // being answered; it may be left out while only one input is pending.
+  async provideHumanInput(instanceId: string, input: any, options: ProvideInputOptions = {}): Promise<void> {
+    await this.answerHumanInput(instanceId, input, options, true);
+  }
+
+  // Record an answer; default answers on timeout skip the assignee check
+  private async answerHumanInput(instanceId: string, input: any, options: ProvideInputOptions, checkAssignees: boolean): Promise<void> {
     const state = this.states.get(instanceId);
-    const pendingInput = this.pendingHumanInputs.get(instanceId);
+    const pendingInputs = this.getPendingHumanInputs(instanceId);
     
-    if (!state || !pendingInput || state.status !== 'paused') {
+    if (state?.status === 'suspended') {
+      throw new Error('Workflow is suspended; resume it before providing input');
+    }
+    if (!state || pendingInputs.length === 0 || (state.status !== 'paused' && state.status !== 'running')) {
       throw new Error('No pending human input for this workflow');
     }
+    if (!options.requestId && pendingInputs.length > 1) {
+      throw new Error(`Workflow instance ${instanceId} has ${pendingInputs.length} pending inputs; pass the requestId being answered`);
+    }
 
-    // Store human input
+    const pendingInput = options.requestId
+      ? pendingInputs.find(candidate => candidate.requestId === options.requestId)
+      : pendingInputs[0];
+    if (!pendingInput) {
+      throw new Error(`No pending human input ${options.requestId} for this workflow`);
+    }
+    if (pendingInput.claimedBy && options.respondedBy !== pendingInput.claimedBy) {
+      throw new Error(`Input ${pendingInput.requestId} is claimed by ${pendingInput.claimedBy}`);
+    }
+    // Only assignees may answer; quorum inputs check their approvers instead
+    const assigned = !pendingInput.assignees?.length ||
+      (options.respondedBy !== undefined && isAssignedTo(pendingInput, { user: options.respondedBy, groups: options.groups }));
+    if (checkAssignees && !pendingInput.quorum && !pendingInput.claimedBy && !assigned) {
+      throw new Error(`Input ${pendingInput.requestId} is assigned to ${pendingInput.assignees!.join(', ')}; pass respondedBy for one of them`);
+    }
+
+    // Reject responses that do not fit the input type; the input stays pending
+    const step = this.getInstanceDefinition(state)?.steps.find(candidate => candidate.id === pendingInput.stepId);
+    const response = parseHumanResponse(pendingInput, input, step?.config.schema);
+    if (!response.success) {
+      throw new HumanInputValidationError(instanceId, pendingInput, response.issues);
+    }
+
+    // Quorum inputs stay pending until enough approvers have responded. Nothing is
+    // awaited until the input is cleared below, so a quorum settles only once.
+    let value = response.value;
+    if (pendingInput.quorum) {
+      const outcome = this.recordApproval(instanceId, pendingInput, response.value, options.respondedBy);
+      if (outcome === 'pending') {
+        state.updatedAt = this.clock.now();
+        await this.persist(instanceId);
+        return;
+      }
+      value = { decision: outcome === 'approved' ? 'approve' : 'reject', responses: pendingInput.responses! } as QuorumResponse;
+    }
+
+    // Store human input with who gave it
+    const respondedAt = this.clock.now();
     state.stepData[pendingInput.stepId] = {
       ...state.stepData[pendingInput.stepId],
-      humanInput: input
+      humanInput: value,
+      ...(options.respondedBy && { respondedBy: options.respondedBy }),
+      respondedAt
     };
+    this.emitEvent(instanceId, 'human_input_received', {
+      stepId: pendingInput.stepId,
+      requestId: pendingInput.requestId,
+      input: value,
+      respondedBy: options.respondedBy,
+      respondedAt
+    });
 
     // Mark step as completed
-    state.completedSteps.push(pendingInput.stepId);
+    markStepCompleted(state, pendingInput.stepId);
     state.status = 'running';
-    state.updatedAt = new Date();
+    state.updatedAt = this.clock.now();
     
     // Clear pending input
-    this.pendingHumanInputs.delete(instanceId);
+    this.clearPendingHumanInput(instanceId, pendingInput.requestId!);
+    await this.persist(instanceId);
     
     this.emitEvent(instanceId, 'step_completed', { 
       stepId: pendingInput.stepId, 
-      result: input 
+      iteration: getIteration(state, pendingInput.stepId),
+      result: value 
     });
 
-    // Continue workflow
-    await this.executeNextStep(instanceId);
+    // Loop back or continue workflow; the caller does not wait for what follows
+    if (step) {
+      await this.applyLoop(instanceId, step);
+    }
+    this.continueInstance(instanceId);
+  }
+
+  // Record one approver's response to a quorum input and report where the quorum stands
+  private recordApproval(instanceId: string, pendingInput: HumanInput, approval: ApprovalResponse, respondedBy?: string): QuorumOutcome {
+    if (!respondedBy) {
+      throw new Error(`Step ${pendingInput.stepId} needs an approval from a named approver; pass respondedBy`);
+    }
+    if (!getApprovers(pendingInput.quorum!).includes(respondedBy)) {
+      throw new Error(`${respondedBy} is not an approver for step ${pendingInput.stepId}`);
+    }
+    const responses = pendingInput.responses = pendingInput.responses || [];
+    if (responses.some(response => response.respondedBy === respondedBy)) {
+      throw new Error(`${respondedBy} has already responded to step ${pendingInput.stepId}`);
+    }
+
+    const recorded: ApproverResponse = { respondedBy, decision: approval.decision, respondedAt: this.clock.now() };
+    if (approval.comment !== undefined) {
+      recorded.comment = approval.comment;
+    }
+    responses.push(recorded);
+    const outcome = evaluateQuorum(pendingInput.quorum!, responses);
+    this.emitEvent(instanceId, 'approval_received', {
+      stepId: pendingInput.stepId,
+      requestId: pendingInput.requestId,
+      ...recorded,
+      outcome
+    });
+    return outcome;
+  }
+
+  // Stop an instance for good; in-flight steps are discarded when they return
+  async cancelWorkflow(instanceId: string, reason?: string): Promise<void> {
+    const state = this.states.get(instanceId);
+    if (!state) {
+      throw new Error(`Workflow instance ${instanceId} not found`);
+    }
+    if (this.isFinished(state)) {
+      throw new Error(`Cannot cancel workflow instance ${instanceId} with status ${state.status}`);
+    }
+
+    const withdrawnInputs = this.getPendingHumanInputs(instanceId);
+    this.clearPendingHumanInputs(instanceId);
+    this.cancelWaits(instanceId);
+
+    this.abortInstance(instanceId, reason || 'Workflow cancelled');
+
+    state.status = 'cancelled';
+    state.cancelReason = reason;
+    state.updatedAt = this.clock.now();
+    await this.persist(instanceId);
+    this.emitEvent(instanceId, 'workflow_cancelled', { reason, withdrawnInputs });
+    await this.cancelChildren(state, 'Parent workflow cancelled');
+    await this.notifyParent(state);
+    this.resolveCompletion(state);
+  }
+
+  private async cancelChildren(state: WorkflowState, reason: string): Promise<void> {
+    for (const childId of Object.values(state.childInstances)) {
+      const child = this.states.get(childId);
+      if (child && !this.isFinished(child)) {
+        await this.cancelWorkflow(childId, reason);
+      }
+    }
+  }
+
+  // Hold an instance: no new steps start and human input is refused until resumed
+  async suspendWorkflow(instanceId: string, reason?: string): Promise<void> {
+    const state = this.states.get(instanceId);
+    if (!state) {
+      throw new Error(`Workflow instance ${instanceId} not found`);
+    }
+    if (this.isFinished(state) || state.status === 'suspended') {
+      throw new Error(`Cannot suspend workflow instance ${instanceId} with status ${state.status}`);
+    }
+
+    this.cancelDeadlines(instanceId);
+    this.cancelWaits(instanceId);
+
+    state.status = 'suspended';
+    state.updatedAt = this.clock.now();
+    await this.persist(instanceId);
+    this.emitEvent(instanceId, 'workflow_suspended', { reason });
+  }
+
+  // Continue a suspended instance from where it stopped
+  async resumeWorkflow(instanceId: string): Promise<void> {
+    const state = this.states.get(instanceId);
+    if (!state) {
+      throw new Error(`Workflow instance ${instanceId} not found`);
+    }
+    if (state.status !== 'suspended') {
+      throw new Error(`Workflow instance ${instanceId} is not suspended`);
+    }
+
+    state.status = 'running';
+    state.updatedAt = this.clock.now();
+    this.scheduleDeadlines(instanceId);
+    this.scheduleWaits(instanceId);
+    await this.persist(instanceId);
+    this.emitEvent(instanceId, 'workflow_resumed', {});
+
+    this.continueInstance(instanceId);
+  }
+
+  private isStopped(state: WorkflowState): boolean {
+    return ['failed', 'cancelled', 'compensating', 'compensated', 'compensation_failed'].includes(state.status);
+  }
+
+  private isFinished(state: WorkflowState): boolean {
+    return state.status === 'completed' || this.isStopped(state);
+  }
+
+  // Finished for good: nothing runs any more, compensations included
+  private isSettled(state: WorkflowState): boolean {
+    return this.isFinished(state) && state.status !== 'compensating';
   }
 
-  // Find the next step that can be executed
-  private findNextStep(workflow: WorkflowDefinition, state: WorkflowState) {
-    return workflow.steps.find(step => {
-      // Skip completed steps
-      if (state.completedSteps.includes(step.id)) return false;
+  private resolveCompletion(state: WorkflowState): void {
+    if (!this.isSettled(state)) return;
+    const waiters = this.completionWaiters.get(state.id) || [];
+    this.completionWaiters.delete(state.id);
+    waiters.forEach(resolve => resolve(state));
+  }
+
+  // Status of an instance with nothing executing: 'waiting' when only timers are
+  // left, 'paused' when a human or a deferred result is still outstanding
+  private getIdleStatus(state: WorkflowState): 'paused' | 'waiting' {
+    const onlyTimers = state.currentStepIds.length > 0 && state.currentStepIds.every(id => id in state.waitingSteps);
+    return onlyTimers ? 'waiting' : 'paused';
+  }
+
+  private getPendingInputs(instanceId: string): Map<string, HumanInput> {
+    let pendingInputs = this.pendingHumanInputs.get(instanceId);
+    if (!pendingInputs) {
+      pendingInputs = new Map();
+      this.pendingHumanInputs.set(instanceId, pendingInputs);
+    }
+    return pendingInputs;
+  }
+
+  private clearPendingHumanInput(instanceId: string, requestId: string): void {
+    this.pendingHumanInputs.get(instanceId)?.delete(requestId);
+    this.scheduler.cancel(`deadline:${instanceId}:${requestId}`);
+  }
+
+  private clearPendingHumanInputs(instanceId: string): void {
+    this.cancelDeadlines(instanceId);
+    this.pendingHumanInputs.delete(instanceId);
+  }
+
+  private scheduleDeadline(instanceId: string, requestId: string): void {
+    const state = this.states.get(instanceId);
+    const pendingInput = this.pendingHumanInputs.get(instanceId)?.get(requestId);
+    if (!pendingInput?.deadline || !state || state.status === 'suspended' || this.isFinished(state)) return;
+
+    this.scheduler.schedule(`deadline:${instanceId}:${requestId}`, pendingInput.deadline, () => this.enqueue(instanceId, () => this.handleDeadline(instanceId, requestId)));
+  }
+
+  private scheduleDeadlines(instanceId: string): void {
+    for (const requestId of this.pendingHumanInputs.get(instanceId)?.keys() || []) {
+      this.scheduleDeadline(instanceId, requestId);
+    }
+  }
+
+  private cancelDeadlines(instanceId: string): void {
+    for (const requestId of this.pendingHumanInputs.get(instanceId)?.keys() || []) {
+      this.scheduler.cancel(`deadline:${instanceId}:${requestId}`);
+    }
+  }
+
+  // Apply the timeout action of a human input nobody answered in time
+  private async handleDeadline(instanceId: string, requestId: string): Promise<void> {
+    const state = this.states.get(instanceId);
+    const pendingInput = this.pendingHumanInputs.get(instanceId)?.get(requestId);
+    const timeout = pendingInput?.timeout;
+    if (!state || !pendingInput || !timeout) return;
+    if (state.status !== 'paused' && state.status !== 'running') return;
+
+    this.emitEvent(instanceId, 'human_input_expired', {
+      stepId: pendingInput.stepId,
+      humanInput: pendingInput,
+      action: timeout.action
+    });
+
+    switch (timeout.action) {
+      case 'remind': {
+        pendingInput.reminders = (pendingInput.reminders || 0) + 1;
+        const remindAgain = timeout.maxReminders === undefined || pendingInput.reminders < timeout.maxReminders;
+        pendingInput.deadline = remindAgain
+          ? new Date(this.clock.now().getTime() + timeout.afterMs)
+          : undefined;
+        state.updatedAt = this.clock.now();
+        await this.persist(instanceId);
+        this.scheduleDeadline(instanceId, requestId);
+        break;
+      }
+
+      case 'escalate': {
+        const previousAssignees = pendingInput.assignees;
+        // Without anyone to escalate to, the input stays with its assignees
+        if (timeout.escalateTo && timeout.escalateTo.length > 0) {
+          pendingInput.assignees = timeout.escalateTo;
+        }
+        pendingInput.escalated = true;
+        this.dropClaim(pendingInput);
+        pendingInput.deadline = undefined;
+        state.updatedAt = this.clock.now();
+        await this.persist(instanceId);
+        this.emitEvent(instanceId, 'human_input_escalated', {
+          stepId: pendingInput.stepId,
+          humanInput: pendingInput,
+          previousAssignees,
+          assignees: pendingInput.assignees
+        });
+        break;
+      }
+
+      case 'default':
+        // The answer is given on behalf of whoever held the input
+        this.dropClaim(pendingInput);
+        try {
+          await this.answerHumanInput(instanceId, timeout.defaultValue, { requestId }, false);
+        } catch (error) {
+          if (!(error instanceof HumanInputValidationError)) throw error;
+          await this.failWorkflow(instanceId, pendingInput.stepId, `Default value for step ${pendingInput.stepId} is invalid: ${error.issues.join('; ')}`);
+        }
+        break;
+
+      case 'fail':
+        await this.failWorkflow(instanceId, pendingInput.stepId, `Human input for step ${pendingInput.stepId} was not provided before its deadline`);
+        break;
+    }
+  }
+
+  // Reload every stored instance into memory (register workflows first)
+  async rehydrate(): Promise<WorkflowState[]> {
+    const records = await this.store.loadAll();
+
+    for (const record of records) {
+      const instanceId = record.state.id;
+      this.states.set(instanceId, record.state);
+      this.executingSteps.delete(instanceId);
+      this.abortControllers.delete(instanceId);
+
+      // Older records hold a single pending input without a request id
+      const pendingInputs = record.pendingHumanInputs || (record.pendingHumanInput ? [record.pendingHumanInput] : []);
+      this.clearPendingHumanInputs(instanceId);
+      for (const pendingInput of pendingInputs) {
+        pendingInput.requestId = pendingInput.requestId || this.generateId();
+        this.getPendingInputs(instanceId).set(pendingInput.requestId, pendingInput);
+      }
+      this.scheduleDeadlines(instanceId);
+
+      record.state.skippedSteps = record.state.skippedSteps || [];
+      record.state.stepAttempts = record.state.stepAttempts || {};
+      record.state.iterations = record.state.iterations || {};
+      record.state.workflowVersion = record.state.workflowVersion ?? 1;
+      record.state.deferredSteps = record.state.deferredSteps || [];
+      record.state.childInstances = record.state.childInstances || {};
+      record.state.compensations = record.state.compensations || {};
+      record.state.input = record.state.input || {};
+      record.state.waitingSteps = record.state.waitingSteps || {};
+
+      // Steps that were executing when the process stopped are no longer in flight
+      const humanStepIds = pendingInputs.map(pendingInput => pendingInput.stepId);
+      record.state.currentStepIds = (record.state.currentStepIds || [])
+        .filter(id => humanStepIds.includes(id) || record.state.deferredSteps.includes(id) || id in record.state.waitingSteps);
+      this.scheduleWaits(instanceId);
+    }
+
+    return records.map(record => record.state);
+  }
+
+  // Rehydrate and queue instances that were mid-execution. A step that was
+  // running when the process stopped is executed again from the start.
+  // Paused instances stay paused until their human input arrives; waiting ones
+  // continue when their timers fire, right away if the time passed meanwhile.
+  async resumeAll(): Promise<string[]> {
+    const states = await this.rehydrate();
+    const resumed: string[] = [];
+
+    for (const state of states) {
+      if (!this.getInstanceDefinition(state)) {
+        this.logger.warn(`Cannot resume instance ${state.id}: workflow ${state.workflowId} version ${state.workflowVersion} is not registered`);
+        continue;
+      }
+
+      if (state.status === 'pending' || state.status === 'running') {
+        resumed.push(state.id);
+        this.continueInstance(state.id);
+      } else if (state.status === 'compensating') {
+        // Finish undoing work that was interrupted
+        resumed.push(state.id);
+        await this.compensate(state.id);
+        this.resolveCompletion(state);
+      } else if (state.status === 'paused' || state.status === 'waiting') {
+        resumed.push(state.id);
+      }
+    }
+
+    // Children that finished just before the process stopped may not have reached their parent yet
+    for (const state of states) {
+      if (state.parentInstanceId && this.isFinished(state)) {
+        await this.notifyParent(state);
+      }
+    }
+
+    return resumed;
+  }
+
+  // Find every step that can be started now
+  private findReadySteps(workflow: WorkflowDefinition, state: WorkflowState): WorkflowStep[] {
+    return workflow.steps.filter(step => {
+      // Skip resolved and in-flight steps
+      if (this.isResolved(state, step.id)) return false;
+      if (state.currentStepIds.includes(step.id)) return false;
       
       // Check if dependencies are met
       if (step.dependencies) {
-        return step.dependencies.every(dep => state.completedSteps.includes(dep));
+        return step.dependencies.every(dep => this.isResolved(state, dep));
       }
       
       return true;
     });
   }
 
-  // Execute a single step (override in subclasses for custom step types)
+  // Mark branches that were not taken as skipped. A step is skipped when its
+  // condition fails, or when every one of its dependencies was skipped. A step
+  // joining a taken and a skipped branch still runs.
+  private skipUnreachableSteps(workflow: WorkflowDefinition, state: WorkflowState): WorkflowStep[] {
+    const skipped: WorkflowStep[] = [];
+    let changed = true;
+
+    while (changed) {
+      changed = false;
+
+      for (const step of workflow.steps) {
+        if (this.isResolved(state, step.id) || state.currentStepIds.includes(step.id)) continue;
+
+        const dependencies = step.dependencies || [];
+        if (!dependencies.every(dep => this.isResolved(state, dep))) continue;
+
+        const branchNotTaken = dependencies.length > 0 && dependencies.every(dep => state.skippedSteps.includes(dep));
+        const conditionFailed = step.condition !== undefined && !evaluateCondition(step.condition, state.stepData);
+
+        if (branchNotTaken || conditionFailed) {
+          state.skippedSteps.push(step.id);
+          skipped.push(step);
+          changed = true;
+        }
+      }
+    }
+
+    return skipped;
+  }
+
+  private isResolved(state: WorkflowState, stepId: string): boolean {
+    return state.completedSteps.includes(stepId) || state.skippedSteps.includes(stepId);
+  }
+
+  private getExecutingSteps(instanceId: string): Set<string> {
+    let executing = this.executingSteps.get(instanceId);
+    if (!executing) {
+      executing = new Set();
+      this.executingSteps.set(instanceId, executing);
+    }
+    return executing;
+  }
+
+  // Register the handler that executes steps of the given type
+  registerStepHandler(type: string, handler: StepHandler): void {
+    this.stepHandlers.set(type, handler);
+  }
+
+  getStepTypes(): string[] {
+    return Array.from(this.stepHandlers.keys());
+  }
+
+  private registerBuiltInStepHandlers(options: WorkflowEngineOptions): void {
+    this.registerStepHandler('human', new HumanStepHandler());
+    this.registerStepHandler('system', new SystemStepHandler());
+    this.registerStepHandler('agent', new AgentStepHandler(options.llm));
+    this.registerStepHandler('workflow', new SubWorkflowStepHandler());
+    this.registerStepHandler('delay', new DelayStepHandler());
+    this.registerStepHandler('quality_check', new QualityCheckStepHandler(options.quality, options.llm));
+  }
+
+  // Execute a single step through its registered handler
   protected async executeStep(step: WorkflowStep, state: WorkflowState): Promise<StepResult> {
-    switch (step.type) {
-      case 'human':
-        return {
-          stepId: step.id,
-          success: true,
-          requiresHuman: {
-            stepId: step.id,
-            prompt: step.config.prompt || `Input required for step: ${step.name}`,
-            inputType: step.config.inputType || 'text',
-            options: step.config.options,
-            metadata: step.config.metadata
-          }
-        };
-      
-      case 'system':
-        // Simple system step - just return success
-        return {
-          stepId: step.id,
-          success: true,
-          data: { message: `System step ${step.name} completed` }
-        };
-      
-      case 'agent':
-        // Placeholder for agent execution - override this method
-        return {
-          stepId: step.id,
-          success: true,
-          data: { message: `Agent step ${step.name} completed` }
-        };
-      
-      default:
-        return {
-          stepId: step.id,
-          success: false,
-          error: `Unknown step type: ${step.type}`
-        };
+    const handler = this.stepHandlers.get(step.type);
+    if (!handler) {
+      return {
+        stepId: step.id,
+        success: false,
+        error: `Unknown step type: ${step.type}`
+      };
     }
+
+    // {{ templates }} in the config read the results available right now
+    const resolvedStep = { ...step, config: resolveTemplates(step.config, createTemplateContext(state)) };
+    return await handler.execute(resolvedStep, createReadonlyView(state), this.createStepContext(state, step));
+  }
+
+  private createStepContext(state: WorkflowState, step: WorkflowStep): StepContext {
+    return {
+      instanceId: state.id,
+      workflow: this.getInstanceDefinition(state)!,
+      emit: (name, data) => this.emitEvent(state.id, 'step_event', { stepId: step.id, name, data }),
+      logger: this.logger,
+      now: () => this.clock.now(),
+      signal: this.getAbortController(state.id).signal,
+      startChildWorkflow: (workflowId, input, version) => this.startChildWorkflow(state, step, workflowId, input || {}, version)
+    };
+  }
+
+  private getAbortController(instanceId: string): AbortController {
+    let controller = this.abortControllers.get(instanceId);
+    if (!controller) {
+      controller = new AbortController();
+      this.abortControllers.set(instanceId, controller);
+    }
+    return controller;
+  }
+
+  // Signal in-flight handlers that their instance has stopped
+  private abortInstance(instanceId: string, reason: string): void {
+    this.getAbortController(instanceId).abort(new Error(reason));
+    // Compensations run after this and need a live signal of their own
+    this.abortControllers.delete(instanceId);
   }
 
   // Get workflow state
@@ -201,21 +1279,197 @@ export class WorkflowEngine extends EventEmitter {
     return this.states.get(instanceId);
   }
 
-  // Get pending human input
-  getPendingHumanInput(instanceId: string): HumanInput | undefined {
-    return this.pendingHumanInputs.get(instanceId);
+  // Find instances in the state store, e.g. { status: 'paused', workflowId: 'expense-approval' }.
+  // Instances loaded in this engine are reported with their live state.
+  async listInstances(query: InstanceQuery = {}): Promise<InstancePage> {
+    return queryInstances(await this.loadAllStates(), query);
+  }
+
+  async countInstances(filter: InstanceFilter = {}): Promise<Partial<Record<WorkflowStatus, number>>> {
+    return countInstancesByStatus(await this.loadAllStates(), filter);
+  }
+
+  private async loadAllStates(): Promise<WorkflowState[]> {
+    const states = new Map<string, WorkflowState>();
+    for (const record of await this.store.loadAll()) {
+      states.set(record.state.id, record.state);
+    }
+    for (const [instanceId, state] of this.states) {
+      states.set(instanceId, state);
+    }
+    return Array.from(states.values());
+  }
+
+  // Every human input the instance is waiting on, in the order they were requested
+  getPendingHumanInputs(instanceId: string): HumanInput[] {
+    return Array.from(this.pendingHumanInputs.get(instanceId)?.values() || []);
+  }
+
+  // Pending inputs the identity can work on, across the instances in memory
+  getInbox(identity: InboxIdentity, options: InboxOptions = {}): InboxTask[] {
+    const tasks: InboxTask[] = [];
+    for (const [instanceId, pendingInputs] of this.pendingHumanInputs) {
+      const state = this.states.get(instanceId);
+      // Suspended instances do not take answers
+      if (!state || state.status === 'suspended') continue;
+      for (const input of pendingInputs.values()) {
+        if (isInInbox(input, identity, options)) {
+          tasks.push({ instanceId, workflowId: state.workflowId, requestId: input.requestId!, input });
+        }
+      }
+    }
+    return tasks;
+  }
+
+  // Reserve a pending input for one assignee so nobody else answers it meanwhile
+  async claimHumanInput(instanceId: string, requestId: string, identity: InboxIdentity): Promise<HumanInput> {
+    const input = this.getPendingInputForTask(instanceId, requestId);
+    if (input.quorum) {
+      throw new Error(`Input ${requestId} is answered by several approvers and cannot be claimed`);
+    }
+    if (!isAssignedTo(input, identity)) {
+      throw new Error(`${identity.user} is not assigned to input ${requestId}`);
+    }
+    if (input.claimedBy && input.claimedBy !== identity.user) {
+      throw new Error(`Input ${requestId} is already claimed by ${input.claimedBy}`);
+    }
+
+    input.claimedBy = identity.user;
+    input.claimedAt = this.clock.now();
+    await this.saveTaskChange(instanceId);
+    this.emitEvent(instanceId, 'human_input_claimed', { stepId: input.stepId, requestId, claimedBy: identity.user });
+    return input;
+  }
+
+  // Give a claimed input back to its assignees
+  async releaseHumanInput(instanceId: string, requestId: string, user: string): Promise<HumanInput> {
+    const input = this.getPendingInputForTask(instanceId, requestId);
+    if (input.claimedBy !== user) {
+      throw new Error(`Input ${requestId} is not claimed by ${user}`);
+    }
+
+    this.dropClaim(input);
+    await this.saveTaskChange(instanceId);
+    this.emitEvent(instanceId, 'human_input_released', { stepId: input.stepId, requestId, releasedBy: user });
+    return input;
+  }
+
+  // Replace the assignees of a pending input, dropping any claim
+  async reassignHumanInput(instanceId: string, requestId: string, assignees: string[], reassignedBy?: string): Promise<HumanInput> {
+    const input = this.getPendingInputForTask(instanceId, requestId);
+    if (input.quorum) {
+      throw new Error(`Input ${requestId} is answered by several approvers and cannot be reassigned`);
+    }
+    const previousAssignees = input.assignees;
+
+    input.assignees = assignees;
+    delete input.delegatedBy;
+    this.dropClaim(input);
+    await this.saveTaskChange(instanceId);
+    this.emitEvent(instanceId, 'human_input_reassigned', {
+      stepId: input.stepId,
+      requestId,
+      humanInput: input,
+      previousAssignees,
+      assignees,
+      reassignedBy
+    });
+    return input;
+  }
+
+  // Hand a pending input on to another user, who holds the claim from then on.
+  // Only the claimant, or an assignee while it is unclaimed, may delegate.
+  async delegateHumanInput(instanceId: string, requestId: string, from: InboxIdentity, to: string): Promise<HumanInput> {
+    const input = this.getPendingInputForTask(instanceId, requestId);
+    if (input.quorum) {
+      throw new Error(`Input ${requestId} is answered by several approvers and cannot be delegated`);
+    }
+    if (input.claimedBy ? input.claimedBy !== from.user : !isAssignedTo(input, from)) {
+      throw new Error(`${from.user} cannot delegate input ${requestId}`);
+    }
+    const previousAssignees = input.assignees;
+
+    input.assignees = [to];
+    input.claimedBy = to;
+    input.claimedAt = this.clock.now();
+    input.delegatedBy = from.user;
+    await this.saveTaskChange(instanceId);
+    this.emitEvent(instanceId, 'human_input_reassigned', {
+      stepId: input.stepId,
+      requestId,
+      humanInput: input,
+      previousAssignees,
+      assignees: input.assignees,
+      delegatedBy: from.user
+    });
+    return input;
+  }
+
+  private getPendingInputForTask(instanceId: string, requestId: string): HumanInput {
+    const input = this.pendingHumanInputs.get(instanceId)?.get(requestId);
+    if (!input) {
+      throw new Error(`No pending human input ${requestId} for workflow instance ${instanceId}`);
+    }
+    return input;
+  }
+
+  private async saveTaskChange(instanceId: string): Promise<void> {
+    this.states.get(instanceId)!.updatedAt = this.clock.now();
+    await this.persist(instanceId);
+  }
+
+  private dropClaim(input: HumanInput): void {
+    delete input.claimedBy;
+    delete input.claimedAt;
+  }
+
+  // Every event recorded for an instance, oldest first
+  async getHistory(instanceId: string): Promise<WorkflowEvent[]> {
+    return await this.store.loadEvents(instanceId);
+  }
+
+  // Rebuild an instance's state purely from its recorded events
+  async rebuildState(instanceId: string): Promise<WorkflowState> {
+    return replayHistory(await this.getHistory(instanceId));
+  }
+
+  // Replay the history and compare it with the live state; lists mismatched fields
+  async verifyHistory(instanceId: string): Promise<{ consistent: boolean; mismatchedFields: string[] }> {
+    const state = this.states.get(instanceId) || (await this.store.load(instanceId))?.state;
+    if (!state) {
+      throw new Error(`Workflow instance ${instanceId} not found`);
+    }
+
+    const mismatchedFields = verifyReplay(state, await this.rebuildState(instanceId));
+    return { consistent: mismatchedFields.length === 0, mismatchedFields };
+  }
+
+  // Write the instance through to the state store
+  private async persist(instanceId: string): Promise<void> {
+    const state = this.states.get(instanceId);
+    if (!state) return;
+
+    await this.store.save({
+      state,
+      pendingHumanInputs: this.getPendingHumanInputs(instanceId)
+    });
   }
 
   // Emit workflow events
   private emitEvent(workflowId: string, type: WorkflowEvent['type'], data: any): void {
     const event: WorkflowEvent = {
-      id: uuidv4(),
+      id: this.generateId(),
       workflowId,
       type,
-      timestamp: new Date(),
+      timestamp: this.clock.now(),
       data
     };
     
+    // Record before notifying listeners; stores serialize the event right away
+    this.store.appendEvent(event).catch(error =>
+      this.logger.error(`Failed to record ${type} event for ${workflowId}:`, error)
+    );
+    
     this.emit('workflow_event', event);
     this.emit(type, event);
   }
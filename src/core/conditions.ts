@@ -0,0 +1,34 @@
+import { StepCondition } from '../types/workflow.js';
+
+// Read a dot-separated path such as "human-review.humanInput" out of an object
+export function getValueAtPath(source: any, path: string): any {
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), source);
+}
+
+// Evaluate a declarative step condition against WorkflowState.stepData
+export function evaluateCondition(condition: StepCondition, stepData: Record<string, any>): boolean {
+  if ('all' in condition) {
+    return condition.all.every(inner => evaluateCondition(inner, stepData));
+  }
+  if ('any' in condition) {
+    return condition.any.some(inner => evaluateCondition(inner, stepData));
+  }
+  if ('not' in condition) {
+    return !evaluateCondition(condition.not, stepData);
+  }
+
+  const value = getValueAtPath(stepData, condition.path);
+
+  if (condition.exists !== undefined && (value !== undefined) !== condition.exists) return false;
+  if ('equals' in condition && !isEqual(value, condition.equals)) return false;
+  if ('notEquals' in condition && isEqual(value, condition.notEquals)) return false;
+  if (condition.in && !condition.in.some(option => isEqual(value, option))) return false;
+
+  return true;
+}
+
+function isEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,170 @@
+// Minimal five-field cron expressions: minute hour day-of-month month day-of-week.
+// Fields take `*`, numbers, ranges (`1-5`), lists (`1,15`) and steps (`*/15`, `9-17/2`).
+// Day of week runs 0-6 from Sunday, with 7 also meaning Sunday.
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron matches either day field when both are restricted
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+// How far ahead nextCronTime looks before giving up (e.g. for 30 February)
+const MAX_SEARCH_YEARS = 5;
+
+const FIELDS: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }
+];
+
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(expression, part, FIELDS[index]));
+
+  // Sunday is both 0 and 7
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] === '*',
+    anyDayOfWeek: parts[4] === '*'
+  };
+}
+
+// The first matching minute strictly after `after`, in UTC or the local time zone
+export function nextCronTime(schedule: CronSchedule, after: Date, options: { utc?: boolean } = {}): Date {
+  const time = new Date(after.getTime());
+  const get = options.utc ? utcAccessors : localAccessors;
+
+  time.setUTCSeconds(0, 0);
+  time.setTime(time.getTime() + 60_000);
+
+  const limit = after.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60_000;
+  while (time.getTime() <= limit) {
+    if (!schedule.months.has(get.month(time) + 1)) {
+      get.setMonthStart(time, get.month(time) + 1);
+      continue;
+    }
+    if (!matchesDay(schedule, get.date(time), get.day(time))) {
+      get.setDayStart(time, get.date(time) + 1);
+      continue;
+    }
+    if (!schedule.hours.has(get.hours(time))) {
+      get.setHourStart(time, get.hours(time) + 1);
+      continue;
+    }
+    if (!schedule.minutes.has(get.minutes(time))) {
+      time.setTime(time.getTime() + 60_000);
+      continue;
+    }
+    return time;
+  }
+
+  throw new Error(`Cron expression "${schedule.expression}" never matches`);
+}
+
+function matchesDay(schedule: CronSchedule, dayOfMonth: number, dayOfWeek: number): boolean {
+  const monthMatch = schedule.daysOfMonth.has(dayOfMonth);
+  const weekMatch = schedule.daysOfWeek.has(dayOfWeek);
+  if (schedule.anyDayOfMonth) return weekMatch;
+  if (schedule.anyDayOfWeek) return monthMatch;
+  return monthMatch || weekMatch;
+}
+
+function parseField(expression: string, field: string, range: { name: string; min: number; max: number }): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of field.split(',')) {
+    const [rangePart, stepPart] = item.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+
+    let start = range.min;
+    let end = range.max;
+    if (rangePart !== '*') {
+      const bounds = rangePart.split('-').map(Number);
+      start = bounds[0];
+      end = bounds.length > 1 ? bounds[1] : stepPart === undefined ? start : range.max;
+    }
+
+    const valid = [start, end, step].every(Number.isInteger) && step > 0
+      && start >= range.min && end <= range.max && start <= end;
+    if (!valid) {
+      throw new Error(`Invalid cron expression "${expression}": bad ${range.name} field "${field}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+interface DateAccessors {
+  month(date: Date): number;
+  date(date: Date): number;
+  day(date: Date): number;
+  hours(date: Date): number;
+  minutes(date: Date): number;
+  // Move to the start of the given month/day/hour; values past the end roll over
+  setMonthStart(date: Date, month: number): void;
+  setDayStart(date: Date, day: number): void;
+  setHourStart(date: Date, hour: number): void;
+}
+
+const localAccessors: DateAccessors = {
+  month: date => date.getMonth(),
+  date: date => date.getDate(),
+  day: date => date.getDay(),
+  hours: date => date.getHours(),
+  minutes: date => date.getMinutes(),
+  setMonthStart: (date, month) => {
+    date.setMonth(month, 1);
+    date.setHours(0, 0, 0, 0);
+  },
+  setDayStart: (date, day) => {
+    date.setDate(day);
+    date.setHours(0, 0, 0, 0);
+  },
+  setHourStart: (date, hour) => {
+    date.setHours(hour, 0, 0, 0);
+  }
+};
+
+const utcAccessors: DateAccessors = {
+  month: date => date.getUTCMonth(),
+  date: date => date.getUTCDate(),
+  day: date => date.getUTCDay(),
+  hours: date => date.getUTCHours(),
+  minutes: date => date.getUTCMinutes(),
+  setMonthStart: (date, month) => {
+    date.setUTCMonth(month, 1);
+    date.setUTCHours(0, 0, 0, 0);
+  },
+  setDayStart: (date, day) => {
+    date.setUTCDate(day);
+    date.setUTCHours(0, 0, 0, 0);
+  },
+  setHourStart: (date, hour) => {
+    date.setUTCHours(hour, 0, 0, 0);
+  }
+};
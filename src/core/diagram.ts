@@ -0,0 +1,170 @@
+import { WorkflowDefinition, WorkflowState, WorkflowStep, HumanInput } from '../types/workflow.js';
+
+export type DiagramFormat = 'mermaid' | 'dot';
+
+export type StepDiagramStatus = 'completed' | 'skipped' | 'running' | 'waiting_for_human' | 'waiting' | 'failed' | 'not_reached';
+
+export interface DiagramOptions {
+  // Colour steps by their status in this instance
+  state?: WorkflowState;
+  // The instance's pending inputs, so steps waiting for a human stand out
+  pendingInputs?: HumanInput[];
+}
+
+const STATUS_COLOURS: Record<StepDiagramStatus, string> = {
+  completed: '#c8e6c9',
+  skipped: '#eeeeee',
+  running: '#bbdefb',
+  waiting_for_human: '#fff59d',
+  waiting: '#ffe0b2',
+  failed: '#ffcdd2',
+  not_reached: '#ffffff'
+};
+
+// Mermaid node brackets per step type; custom types use the parallelogram
+const MERMAID_SHAPES: Record<string, [string, string]> = {
+  agent: ['(', ')'],
+  human: ['{{', '}}'],
+  system: ['[', ']'],
+  workflow: ['[[', ']]'],
+  delay: ['((', '))'],
+  quality_check: ['{', '}']
+};
+const MERMAID_CUSTOM_SHAPE: [string, string] = ['[/', '/]'];
+
+const DOT_SHAPES: Record<string, string> = {
+  agent: 'ellipse',
+  human: 'hexagon',
+  system: 'box',
+  workflow: 'component',
+  delay: 'circle',
+  quality_check: 'diamond'
+};
+const DOT_CUSTOM_SHAPE = 'parallelogram';
+
+export function renderDiagram(workflow: WorkflowDefinition, format: DiagramFormat, options: DiagramOptions = {}): string {
+  return format === 'dot' ? renderDot(workflow, options) : renderMermaid(workflow, options);
+}
+
+// Mermaid flowchart: dependencies as arrows, loops as dashed arrows back
+export function renderMermaid(workflow: WorkflowDefinition, options: DiagramOptions = {}): string {
+  const nodeIds = getNodeIds(workflow);
+  const lines = ['flowchart TD'];
+
+  for (const step of workflow.steps) {
+    const [open, close] = MERMAID_SHAPES[step.type] || MERMAID_CUSTOM_SHAPE;
+    lines.push(`  ${nodeIds.get(step.id)}${open}"${escapeMermaid(getLabel(step))}"${close}`);
+  }
+
+  forEachEdge(workflow, (from, to, loop) => {
+    lines.push(loop
+      ? `  ${nodeIds.get(from)} -.->|loop| ${nodeIds.get(to)}`
+      : `  ${nodeIds.get(from)} --> ${nodeIds.get(to)}`);
+  });
+
+  if (options.state) {
+    const statuses = getStepStatuses(workflow, options.state, options.pendingInputs);
+    for (const [status, colour] of Object.entries(STATUS_COLOURS)) {
+      lines.push(`  classDef ${status} fill:${colour},stroke:#555${status === 'skipped' ? ',stroke-dasharray:4 4' : ''}`);
+    }
+    for (const step of workflow.steps) {
+      lines.push(`  class ${nodeIds.get(step.id)} ${statuses[step.id]}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// Graphviz DOT digraph with the same layout rules as renderMermaid
+export function renderDot(workflow: WorkflowDefinition, options: DiagramOptions = {}): string {
+  const statuses = options.state ? getStepStatuses(workflow, options.state, options.pendingInputs) : undefined;
+  const lines = [
+    `digraph "${escapeDot(workflow.id)}" {`,
+    '  rankdir=TB;',
+    '  node [style=filled, fillcolor="#ffffff", fontname="Helvetica"];'
+  ];
+
+  for (const step of workflow.steps) {
+    const attributes = [
+      `label="${escapeDot(getLabel(step))}"`,
+      `shape=${DOT_SHAPES[step.type] || DOT_CUSTOM_SHAPE}`
+    ];
+    if (statuses) {
+      const status = statuses[step.id];
+      attributes.push(`fillcolor="${STATUS_COLOURS[status]}"`, `tooltip="${status}"`);
+      if (status === 'skipped') attributes.push('style="filled,dashed"');
+    }
+    lines.push(`  "${escapeDot(step.id)}" [${attributes.join(', ')}];`);
+  }
+
+  forEachEdge(workflow, (from, to, loop) => {
+    lines.push(loop
+      ? `  "${escapeDot(from)}" -> "${escapeDot(to)}" [style=dashed, label="loop", constraint=false];`
+      : `  "${escapeDot(from)}" -> "${escapeDot(to)}";`);
+  });
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+// Where each step stands in an instance. Current steps of a failed instance are
+// shown as failed; steps nobody got to yet are not_reached.
+export function getStepStatuses(
+  workflow: WorkflowDefinition,
+  state: WorkflowState,
+  pendingInputs: HumanInput[] = []
+): Record<string, StepDiagramStatus> {
+  const humanStepIds = new Set(pendingInputs.map(input => input.stepId));
+  const failed = ['failed', 'compensating', 'compensated', 'compensation_failed'].includes(state.status);
+  const statuses: Record<string, StepDiagramStatus> = {};
+
+  for (const step of workflow.steps) {
+    if (state.completedSteps.includes(step.id)) {
+      statuses[step.id] = 'completed';
+    } else if (state.skippedSteps.includes(step.id)) {
+      statuses[step.id] = 'skipped';
+    } else if (!state.currentStepIds.includes(step.id)) {
+      statuses[step.id] = 'not_reached';
+    } else if (failed) {
+      statuses[step.id] = 'failed';
+    } else if (humanStepIds.has(step.id)) {
+      statuses[step.id] = 'waiting_for_human';
+    } else if (state.deferredSteps.includes(step.id) || step.id in (state.waitingSteps || {})) {
+      statuses[step.id] = 'waiting';
+    } else {
+      statuses[step.id] = 'running';
+    }
+  }
+
+  return statuses;
+}
+
+function forEachEdge(workflow: WorkflowDefinition, visit: (from: string, to: string, loop: boolean) => void): void {
+  for (const step of workflow.steps) {
+    for (const dependency of step.dependencies || []) {
+      visit(dependency, step.id, false);
+    }
+  }
+  for (const step of workflow.steps) {
+    if (step.loop) {
+      visit(step.id, step.loop.to, true);
+    }
+  }
+}
+
+// Mermaid ids are kept to safe characters; labels carry the real step names
+function getNodeIds(workflow: WorkflowDefinition): Map<string, string> {
+  return new Map(workflow.steps.map((step, index) => [step.id, `step${index}`]));
+}
+
+function getLabel(step: WorkflowStep): string {
+  return `${step.name}\n(${step.type})`;
+}
+
+function escapeMermaid(text: string): string {
+  return text.replace(/"/g, '#quot;').replace(/\n/g, '<br/>');
+}
+
+function escapeDot(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,41 @@
+import { WorkflowValidationIssue } from './validation.js';
+import { HumanInput } from '../types/workflow.js';
+
+// Thrown by registerWorkflow when a definition fails validation
+export class WorkflowValidationError extends Error {
+  readonly workflowId: string;
+  readonly errors: WorkflowValidationIssue[];
+
+  constructor(workflowId: string, errors: WorkflowValidationIssue[]) {
+    super(`Workflow ${workflowId} is invalid:\n${errors.map(error => `  - ${error.message}`).join('\n')}`);
+    this.name = 'WorkflowValidationError';
+    this.workflowId = workflowId;
+    this.errors = errors;
+  }
+}
+
+// Thrown by provideHumanInput when a response does not fit the pending input
+export class HumanInputValidationError extends Error {
+  readonly instanceId: string;
+  readonly input: HumanInput;
+  readonly issues: string[];
+
+  constructor(instanceId: string, input: HumanInput, issues: string[]) {
+    super(`Invalid response for step ${input.stepId}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'HumanInputValidationError';
+    this.instanceId = instanceId;
+    this.input = input;
+    this.issues = issues;
+  }
+}
+
+// Thrown by startWorkflow when the execution queue is full and set to reject
+export class QueueFullError extends Error {
+  readonly maxQueued: number;
+
+  constructor(maxQueued: number) {
+    super(`Execution queue is full (${maxQueued} instances waiting)`);
+    this.name = 'QueueFullError';
+    this.maxQueued = maxQueued;
+  }
+}
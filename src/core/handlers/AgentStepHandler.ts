@@ -0,0 +1,99 @@
+import { z } from 'zod';
+import { WorkflowStep, StepResult } from '../../types/workflow.js';
+import { LLMManager } from '../../quality/llm/LLMManager.js';
+import { LLMMessage, LLMResponse } from '../../quality/llm/types.js';
+import { StepHandler } from './StepHandler.js';
+
+export interface AgentStepConfig {
+  // User message; {{ templates }} are resolved by the engine before the call
+  prompt?: string;
+  systemMessage?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // 'json' parses the reply into `output`; implied by `schema`
+  responseFormat?: 'text' | 'json';
+  // zod schema the parsed reply must satisfy
+  schema?: z.ZodTypeAny;
+}
+
+export interface AgentStepData {
+  content: string;
+  model: string;
+  provider: string;
+  usage?: LLMResponse['usage'];
+  // The parsed reply for JSON steps
+  output?: any;
+}
+
+// Sends the step's prompt to the LLMManager and stores the reply. Steps without
+// a prompt keep the placeholder result, so register your own handler for
+// 'agent' to run other kinds of agents.
+export class AgentStepHandler implements StepHandler {
+  private llm?: LLMManager;
+
+  constructor(llm?: LLMManager) {
+    this.llm = llm;
+  }
+
+  async execute(step: WorkflowStep): Promise<StepResult> {
+    const config = step.config as AgentStepConfig;
+    if (!config.prompt) {
+      return {
+        stepId: step.id,
+        success: true,
+        data: { message: `Agent step ${step.name} completed` }
+      };
+    }
+    if (!this.llm) {
+      throw new Error(`Agent step ${step.id} has a prompt but no LLMManager is configured`);
+    }
+
+    const messages: LLMMessage[] = [];
+    if (config.systemMessage) {
+      messages.push({ role: 'system', content: config.systemMessage });
+    }
+    messages.push({ role: 'user', content: config.prompt });
+
+    const response = await this.llm.chat(messages, {
+      model: config.model,
+      temperature: config.temperature,
+      maxTokens: config.maxTokens
+    });
+
+    const data: AgentStepData = {
+      content: response.content,
+      model: response.model,
+      provider: response.provider,
+      usage: response.usage
+    };
+    if (config.responseFormat === 'json' || config.schema) {
+      data.output = parseAgentOutput(step, response.content, config.schema);
+    }
+
+    return { stepId: step.id, success: true, data };
+  }
+}
+
+// Models often wrap JSON in a markdown code fence
+const CODE_FENCE_PATTERN = /^```(?:json)?\s*([\s\S]*?)\s*```$/i;
+
+function parseAgentOutput(step: WorkflowStep, content: string, schema?: z.ZodTypeAny): any {
+  const trimmed = content.trim();
+  const json = trimmed.match(CODE_FENCE_PATTERN)?.[1] ?? trimmed;
+
+  let value: any;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Agent step ${step.id} did not reply with valid JSON: ${(error as Error).message}`);
+  }
+
+  if (!schema) return value;
+  const parsed = schema.safeParse(value);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+    throw new Error(`Agent step ${step.id} reply does not match its schema: ${issues.join('; ')}`);
+  }
+  return parsed.data;
+}
@@ -0,0 +1,27 @@
+import { WorkflowStep, WorkflowState, StepResult } from '../../types/workflow.js';
+import { DeepReadonly } from '../readonly.js';
+import { StepHandler, StepContext } from './StepHandler.js';
+
+// Parks the step for `config.delayMs`, or until the date in `config.until`
+// (a Date or an ISO string); the instance shows as 'waiting' meanwhile
+export class DelayStepHandler implements StepHandler {
+  async execute(step: WorkflowStep, _state: DeepReadonly<WorkflowState>, context: StepContext): Promise<StepResult> {
+    const until = step.config.until !== undefined
+      ? new Date(step.config.until)
+      : new Date(context.now().getTime() + Number(step.config.delayMs));
+
+    if (isNaN(until.getTime())) {
+      return {
+        stepId: step.id,
+        success: false,
+        error: `Step ${step.id} has an invalid wait time: ${step.config.until ?? step.config.delayMs}`
+      };
+    }
+
+    return {
+      stepId: step.id,
+      success: true,
+      waitUntil: until
+    };
+  }
+}
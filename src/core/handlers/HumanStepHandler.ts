@@ -0,0 +1,26 @@
+import { WorkflowStep, StepResult } from '../../types/workflow.js';
+import { getApprovers } from '../quorum.js';
+import { StepHandler } from './StepHandler.js';
+
+// Asks the engine to pause for human input described by the step config
+export class HumanStepHandler implements StepHandler {
+  async execute(step: WorkflowStep): Promise<StepResult> {
+    return {
+      stepId: step.id,
+      success: true,
+      requiresHuman: {
+        stepId: step.id,
+        prompt: step.config.prompt || `Input required for step: ${step.name}`,
+        inputType: step.config.inputType || (step.config.quorum ? 'approval' : 'text'),
+        options: step.config.options,
+        minLength: step.config.minLength,
+        maxLength: step.config.maxLength,
+        metadata: step.config.metadata,
+        // Approvers are asked unless the step names other assignees
+        assignees: step.config.assignees || (step.config.quorum && getApprovers(step.config.quorum)),
+        timeout: step.config.timeout,
+        quorum: step.config.quorum
+      }
+    };
+  }
+}
@@ -0,0 +1,109 @@
+import { WorkflowStep, WorkflowState, StepResult, HumanInputTimeout } from '../../types/workflow.js';
+import { QualityEngine } from '../../quality/QualityEngine.js';
+import { QualityConfig, ContentToAssess } from '../../quality/types.js';
+import { EngagementAssessor, BrandVoiceAssessor, OverallQualityAssessor } from '../../quality/assessors/ai/index.js';
+import { LLMManager } from '../../quality/llm/LLMManager.js';
+import { DeepReadonly, deepClone } from '../readonly.js';
+import { getValueAtPath } from '../conditions.js';
+import { StepContext, StepHandler } from './StepHandler.js';
+
+export type QualityPreset = 'newsletter' | 'blog' | 'quick';
+
+export interface QualityCheckStepConfig {
+  // Step whose data holds the content
+  contentStep: string;
+  // Dot path into that step's data; a string found there is assessed as text
+  contentPath?: string;
+  // Content type for text content (generic by default)
+  contentType?: ContentToAssess['type'];
+  preset?: QualityPreset;
+  // Applied on top of the preset
+  qualityConfig?: Partial<QualityConfig>;
+  // Shown to the reviewer when the content does not pass
+  prompt?: string;
+  assignees?: string[];
+  timeout?: HumanInputTimeout;
+}
+
+// What a reviewer can answer when the content does not pass
+export const QUALITY_REVIEW_OPTIONS = ['approve_anyway', 'request_revision', 'reject'];
+
+const PRESETS: Record<QualityPreset, () => Partial<QualityConfig>> = {
+  newsletter: QualityEngine.newsletterConfig,
+  blog: QualityEngine.blogConfig,
+  quick: QualityEngine.quickConfig
+};
+
+// Assesses content from an earlier step. Content that passes completes the step;
+// otherwise a reviewer decides, with the metrics and suggestions in the input's
+// metadata. The step's data holds `quality`, `passed` and the reviewer's decision
+// under `humanInput`; every decision completes the step, so guard later steps
+// with a condition on it to stop rejected content.
+export class QualityCheckStepHandler implements StepHandler {
+  private quality?: QualityEngine;
+  private llm?: LLMManager;
+
+  constructor(quality?: QualityEngine, llm?: LLMManager) {
+    this.quality = quality;
+    this.llm = llm;
+  }
+
+  async execute(step: WorkflowStep, state: DeepReadonly<WorkflowState>, context: StepContext): Promise<StepResult> {
+    const config = step.config as QualityCheckStepConfig;
+    const content = this.getContent(step, state);
+    const qualityConfig = { ...(config.preset ? PRESETS[config.preset]() : {}), ...config.qualityConfig };
+
+    // Stamp with the engine clock so simulated runs stay reproducible
+    const quality = { ...await this.getQualityEngine().assess(content, qualityConfig), timestamp: context.now() };
+    if (quality.passed) {
+      return { stepId: step.id, success: true, data: { quality, passed: true } };
+    }
+
+    return {
+      stepId: step.id,
+      success: true,
+      data: { quality, passed: false },
+      requiresHuman: {
+        stepId: step.id,
+        prompt: config.prompt || `${step.name}: quality score ${quality.overallScore} is below the threshold of ${quality.threshold}`,
+        inputType: 'choice',
+        options: QUALITY_REVIEW_OPTIONS,
+        metadata: {
+          overallScore: quality.overallScore,
+          threshold: quality.threshold,
+          metrics: quality.metrics,
+          suggestions: quality.metrics.flatMap(metric => metric.suggestions || [])
+        },
+        assignees: config.assignees,
+        timeout: config.timeout
+      }
+    };
+  }
+
+  private getContent(step: WorkflowStep, state: DeepReadonly<WorkflowState>): ContentToAssess {
+    const config = step.config as QualityCheckStepConfig;
+    const source = state.stepData[config.contentStep];
+    const content = config.contentPath ? getValueAtPath(source, config.contentPath) : source;
+
+    if (typeof content === 'string') {
+      return { text: content, type: config.contentType || 'generic' };
+    }
+    if (content === null || typeof content !== 'object') {
+      throw new Error(`Quality check ${step.id} found no content in step ${config.contentStep}${config.contentPath ? ` at ${config.contentPath}` : ''}`);
+    }
+    return { type: config.contentType || 'generic', ...deepClone(content) } as ContentToAssess;
+  }
+
+  // Created on first use; AI assessors are added when an LLMManager is configured
+  private getQualityEngine(): QualityEngine {
+    if (!this.quality) {
+      this.quality = new QualityEngine();
+      if (this.llm) {
+        this.quality.registerAssessor(new EngagementAssessor(this.llm));
+        this.quality.registerAssessor(new BrandVoiceAssessor(this.llm));
+        this.quality.registerAssessor(new OverallQualityAssessor(this.llm));
+      }
+    }
+    return this.quality;
+  }
+}
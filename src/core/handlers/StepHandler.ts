@@ -0,0 +1,30 @@
+import { WorkflowStep, WorkflowDefinition, WorkflowState, StepResult } from '../../types/workflow.js';
+import { DeepReadonly } from '../readonly.js';
+
+export interface WorkflowLogger {
+  debug(message: string, ...args: any[]): void;
+  info(message: string, ...args: any[]): void;
+  warn(message: string, ...args: any[]): void;
+  error(message: string, ...args: any[]): void;
+}
+
+// What a handler gets besides the step and state
+export interface StepContext {
+  instanceId: string;
+  workflow: WorkflowDefinition;
+  // Emits a `step_event` workflow event on behalf of the step
+  emit(name: string, data?: any): void;
+  logger: WorkflowLogger;
+  // Current time from the engine's clock
+  now(): Date;
+  // Aborted when the instance is cancelled or fails
+  signal: AbortSignal;
+  // Create a child instance linked to this step; return a deferred result and
+  // the engine runs it, completing this step when the child finishes
+  startChildWorkflow(workflowId: string, input?: Record<string, any>, version?: number): Promise<string>;
+}
+
+// Executes one step type; register with WorkflowEngine.registerStepHandler
+export interface StepHandler {
+  execute(step: WorkflowStep, state: DeepReadonly<WorkflowState>, context: StepContext): Promise<StepResult>;
+}
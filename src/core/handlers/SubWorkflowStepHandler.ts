@@ -0,0 +1,31 @@
+import { WorkflowStep, WorkflowState, StepResult } from '../../types/workflow.js';
+import { getValueAtPath } from '../conditions.js';
+import { DeepReadonly } from '../readonly.js';
+import { isTemplate } from '../templating.js';
+import { StepHandler, StepContext } from './StepHandler.js';
+
+// Runs another registered workflow as a child instance. `config.workflowId`
+// names the child workflow (optionally pinned with `config.version`);
+// `config.input` gives the child's input: {{ templates }}, which the engine has
+// resolved by now, or literal values. Plain strings are still read as dot paths
+// into the parent's stepData, but are deprecated in favour of templates.
+export class SubWorkflowStepHandler implements StepHandler {
+  async execute(step: WorkflowStep, state: DeepReadonly<WorkflowState>, context: StepContext): Promise<StepResult> {
+    // The definition tells templates apart from paths, which look alike once resolved
+    const declared = context.workflow.steps.find(candidate => candidate.id === step.id)?.config.input || {};
+    const input: Record<string, any> = {};
+    for (const [key, value] of Object.entries<any>(step.config.input || {})) {
+      const isPath = typeof declared[key] === 'string' && !isTemplate(declared[key]);
+      input[key] = isPath ? getValueAtPath(state.stepData, declared[key]) : value;
+    }
+
+    const childInstanceId = await context.startChildWorkflow(step.config.workflowId, input, step.config.version);
+
+    return {
+      stepId: step.id,
+      success: true,
+      deferred: true,
+      data: { childInstanceId }
+    };
+  }
+}
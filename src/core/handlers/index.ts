@@ -0,0 +1,7 @@
+export * from './StepHandler.js';
+export { HumanStepHandler } from './HumanStepHandler.js';
+export { SystemStepHandler } from './SystemStepHandler.js';
+export { AgentStepHandler, AgentStepConfig, AgentStepData } from './AgentStepHandler.js';
+export { SubWorkflowStepHandler } from './SubWorkflowStepHandler.js';
+export { DelayStepHandler } from './DelayStepHandler.js';
+export { QualityCheckStepHandler, QualityCheckStepConfig, QualityPreset, QUALITY_REVIEW_OPTIONS } from './QualityCheckStepHandler.js';
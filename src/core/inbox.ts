@@ -0,0 +1,44 @@
+import { HumanInput } from '../types/workflow.js';
+
+// Assignees with this prefix name a group rather than a user, e.g. 'group:legal'
+export const GROUP_ASSIGNEE_PREFIX = 'group:';
+
+// Who is looking at the inbox: a user and the groups they belong to
+export interface InboxIdentity {
+  user: string;
+  groups?: string[];
+}
+
+export interface InboxOptions {
+  // Include inputs without assignees, which anyone may answer (default true)
+  includeUnassigned?: boolean;
+  // Include inputs claimed by someone else (default false)
+  includeClaimedByOthers?: boolean;
+}
+
+export interface InboxTask {
+  instanceId: string;
+  workflowId: string;
+  requestId: string;
+  input: HumanInput;
+}
+
+export function groupAssignee(group: string): string {
+  return `${GROUP_ASSIGNEE_PREFIX}${group}`;
+}
+
+// Whether the identity is one of the input's assignees, directly or through a group.
+// Inputs without assignees are open to everyone.
+export function isAssignedTo(input: HumanInput, identity: InboxIdentity): boolean {
+  if (!input.assignees || input.assignees.length === 0) return true;
+  return input.assignees.some(assignee => assignee === identity.user ||
+    (assignee.startsWith(GROUP_ASSIGNEE_PREFIX) && (identity.groups || []).includes(assignee.slice(GROUP_ASSIGNEE_PREFIX.length))));
+}
+
+// The identity's open tasks: assigned to them and not claimed by anyone else
+export function isInInbox(input: HumanInput, identity: InboxIdentity, options: InboxOptions = {}): boolean {
+  const unassigned = !input.assignees || input.assignees.length === 0;
+  if (unassigned && options.includeUnassigned === false) return false;
+  if (input.claimedBy && input.claimedBy !== identity.user && !options.includeClaimedByOthers) return false;
+  return isAssignedTo(input, identity);
+}
@@ -0,0 +1,64 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { WorkflowDefinition } from '../types/workflow.js';
+import { validateWorkflow, WorkflowValidationOptions } from './validation.js';
+import { WorkflowValidationError } from './errors.js';
+
+export type WorkflowFileFormat = 'json' | 'yaml';
+
+const FORMATS_BY_EXTENSION: Record<string, WorkflowFileFormat> = {
+  '.json': 'json',
+  '.yaml': 'yaml',
+  '.yml': 'yaml'
+};
+
+// Parse and validate a definition from JSON or YAML source text; throws
+// WorkflowValidationError when it is not a valid workflow
+export function parseWorkflowDefinition(
+  source: string,
+  format: WorkflowFileFormat,
+  options: WorkflowValidationOptions = {}
+): WorkflowDefinition {
+  let workflow: WorkflowDefinition;
+  try {
+    workflow = format === 'json' ? JSON.parse(source) : parseYaml(source);
+  } catch (error) {
+    throw new Error(`Cannot parse workflow ${format.toUpperCase()}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const errors = validateWorkflow(workflow, options);
+  if (errors.length > 0) {
+    throw new WorkflowValidationError(workflow?.id ?? 'unknown', errors);
+  }
+  return workflow;
+}
+
+// Read one definition file; the format follows the extension (.json, .yaml or .yml)
+export async function loadWorkflowDefinition(filePath: string, options: WorkflowValidationOptions = {}): Promise<WorkflowDefinition> {
+  const format = FORMATS_BY_EXTENSION[path.extname(filePath).toLowerCase()];
+  if (!format) {
+    throw new Error(`Unsupported workflow file ${filePath}; use .json, .yaml or .yml`);
+  }
+
+  const source = await fs.readFile(filePath, 'utf8');
+  try {
+    return parseWorkflowDefinition(source, format, options);
+  } catch (error) {
+    if (error instanceof WorkflowValidationError) throw error;
+    throw new Error(`${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Read every definition file in a directory, sorted by file name
+export async function loadWorkflowDefinitions(directory: string, options: WorkflowValidationOptions = {}): Promise<WorkflowDefinition[]> {
+  const files = (await fs.readdir(directory))
+    .filter(file => FORMATS_BY_EXTENSION[path.extname(file).toLowerCase()])
+    .sort();
+
+  const workflows: WorkflowDefinition[] = [];
+  for (const file of files) {
+    workflows.push(await loadWorkflowDefinition(path.join(directory, file), options));
+  }
+  return workflows;
+}
@@ -0,0 +1,109 @@
+import { WorkflowState } from '../types/workflow.js';
+
+export type WorkflowStatus = WorkflowState['status'];
+
+export interface InstanceFilter {
+  workflowId?: string | string[];
+  status?: WorkflowStatus | WorkflowStatus[];
+  // Instances with this step in currentStepIds
+  currentStepId?: string;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  updatedAfter?: Date;
+  updatedBefore?: Date;
+}
+
+export interface InstanceQuery extends InstanceFilter {
+  sortBy?: 'createdAt' | 'updatedAt';
+  // Newest first by default
+  order?: 'asc' | 'desc';
+  // Page size, 50 by default
+  limit?: number;
+  // nextCursor of the previous page
+  cursor?: string;
+}
+
+export interface InstancePage {
+  instances: WorkflowState[];
+  // Set when more instances match; pass it as `cursor` for the next page
+  nextCursor?: string;
+  // Instances matching the filter across all pages
+  total: number;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+
+function matchesFilter(state: WorkflowState, filter: InstanceFilter): boolean {
+  if (filter.workflowId !== undefined && !toList(filter.workflowId).includes(state.workflowId)) return false;
+  if (filter.status !== undefined && !toList(filter.status).includes(state.status)) return false;
+  if (filter.currentStepId !== undefined && !state.currentStepIds.includes(filter.currentStepId)) return false;
+  if (filter.createdAfter && state.createdAt < filter.createdAfter) return false;
+  if (filter.createdBefore && state.createdAt >= filter.createdBefore) return false;
+  if (filter.updatedAfter && state.updatedAt < filter.updatedAfter) return false;
+  if (filter.updatedBefore && state.updatedAt >= filter.updatedBefore) return false;
+  return true;
+}
+
+// Filter, sort and page a set of instances. Ties on the sort field are broken
+// by instance id, so pages stay stable while instances are added.
+export function queryInstances(states: WorkflowState[], query: InstanceQuery = {}): InstancePage {
+  const sortBy = query.sortBy || 'createdAt';
+  const direction = query.order === 'asc' ? 1 : -1;
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`Invalid page size ${limit}`);
+  }
+
+  const compare = (a: SortKey, b: SortKey) => direction * (a.time - b.time || a.id.localeCompare(b.id));
+  const keyOf = (state: WorkflowState): SortKey => ({ time: new Date(state[sortBy]).getTime(), id: state.id });
+
+  const matching = states
+    .filter(state => matchesFilter(state, query))
+    .sort((a, b) => compare(keyOf(a), keyOf(b)));
+
+  const after = query.cursor ? decodeCursor(query.cursor) : undefined;
+  const remaining = after ? matching.filter(state => compare(keyOf(state), after) > 0) : matching;
+  const instances = remaining.slice(0, limit);
+
+  return {
+    instances,
+    nextCursor: remaining.length > limit ? encodeCursor(keyOf(instances[instances.length - 1])) : undefined,
+    total: matching.length
+  };
+}
+
+// Number of matching instances per status; statuses without instances are left out
+export function countInstancesByStatus(states: WorkflowState[], filter: InstanceFilter = {}): Partial<Record<WorkflowStatus, number>> {
+  const counts: Partial<Record<WorkflowStatus, number>> = {};
+  for (const state of states) {
+    if (matchesFilter(state, filter)) {
+      counts[state.status] = (counts[state.status] || 0) + 1;
+    }
+  }
+  return counts;
+}
+
+interface SortKey {
+  time: number;
+  id: string;
+}
+
+function encodeCursor(key: SortKey): string {
+  return Buffer.from(JSON.stringify([key.time, key.id])).toString('base64url');
+}
+
+function decodeCursor(cursor: string): SortKey {
+  try {
+    const [time, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof time === 'number' && typeof id === 'string') {
+      return { time, id };
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error(`Invalid cursor ${cursor}`);
+}
+
+function toList<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
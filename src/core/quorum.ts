@@ -0,0 +1,40 @@
+import { ApproverGroup, ApproverResponse, QuorumPolicy, QuorumRequirement } from '../types/workflow.js';
+
+export type QuorumOutcome = 'pending' | 'approved' | 'rejected';
+
+// A single set of approvers is treated as one group
+export function getApproverGroups(policy: QuorumPolicy): ApproverGroup[] {
+  return policy.groups || [{ approvers: policy.approvers || [], required: policy.required }];
+}
+
+// Everyone whose response counts towards the quorum
+export function getApprovers(policy: QuorumPolicy): string[] {
+  return Array.from(new Set(getApproverGroups(policy).flatMap(group => group.approvers)));
+}
+
+// Approved once every group has enough approvals; rejected on a veto or as soon
+// as some group can no longer get enough, however the others respond
+export function evaluateQuorum(policy: QuorumPolicy, responses: ApproverResponse[]): QuorumOutcome {
+  if (policy.veto && responses.some(response => response.decision === 'reject')) {
+    return 'rejected';
+  }
+
+  let approved = true;
+  for (const group of getApproverGroups(policy)) {
+    const required = getRequiredApprovals(group.required, group.approvers.length);
+    const groupResponses = responses.filter(response => group.approvers.includes(response.respondedBy));
+    const approvals = groupResponses.filter(response => response.decision === 'approve').length;
+    const outstanding = group.approvers.length - groupResponses.length;
+
+    if (approvals + outstanding < required) return 'rejected';
+    if (approvals < required) approved = false;
+  }
+
+  return approved ? 'approved' : 'pending';
+}
+
+function getRequiredApprovals(required: QuorumRequirement = 'all', approvers: number): number {
+  if (required === 'any') return Math.min(1, approvers);
+  if (required === 'all') return approvers;
+  return Math.min(required, approvers);
+}
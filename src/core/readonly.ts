@@ -0,0 +1,41 @@
+export type DeepReadonly<T> =
+  T extends (...args: any[]) => any ? T :
+  T extends Date ? T :
+  T extends Array<infer U> ? ReadonlyArray<DeepReadonly<U>> :
+  T extends object ? { readonly [K in keyof T]: DeepReadonly<T[K]> } :
+  T;
+
+// Wrap an object so reads pass through and any write throws
+export function createReadonlyView<T extends object>(target: T): DeepReadonly<T> {
+  return new Proxy(target, {
+    get(obj, key, receiver) {
+      const value = Reflect.get(obj, key, receiver);
+      if (value instanceof Date) return new Date(value.getTime());
+      if (value !== null && typeof value === 'object') return createReadonlyView(value);
+      return value;
+    },
+    set(_obj, key) {
+      throw new TypeError(`Cannot modify read-only workflow state (${String(key)})`);
+    },
+    deleteProperty(_obj, key) {
+      throw new TypeError(`Cannot modify read-only workflow state (${String(key)})`);
+    },
+    defineProperty(_obj, key) {
+      throw new TypeError(`Cannot modify read-only workflow state (${String(key)})`);
+    }
+  }) as DeepReadonly<T>;
+}
+
+// Deep copy that keeps Dates; also turns read-only views back into plain objects
+export function deepClone<T>(value: T): T {
+  if (value instanceof Date) return new Date(value.getTime()) as T;
+  if (Array.isArray(value)) return value.map(item => deepClone(item)) as T;
+  if (value !== null && typeof value === 'object') {
+    const copy: Record<string, any> = {};
+    for (const key of Object.keys(value)) {
+      copy[key] = deepClone((value as Record<string, any>)[key]);
+    }
+    return copy as T;
+  }
+  return value;
+}
@@ -0,0 +1,166 @@
+import { WorkflowState } from '../types/workflow.js';
+import { WorkflowEvent } from '../types/events.js';
+import { deepClone } from './readonly.js';
+import { markStepCompleted, resetStepsForIteration } from './transitions.js';
+
+// Fields compared by verifyReplay; updatedAt is left out since events are
+// stamped a moment after the state changes they describe
+const VERIFIED_FIELDS: Array<keyof WorkflowState> = [
+  'id', 'workflowId', 'workflowVersion', 'status', 'currentStepIds', 'completedSteps', 'skippedSteps',
+  'deferredSteps', 'stepAttempts', 'iterations', 'input', 'stepData', 'cancelReason', 'childInstances',
+  'compensations', 'waitingSteps'
+];
+
+// Rebuild an instance's state from its event log alone
+export function replayHistory(events: WorkflowEvent[]): WorkflowState {
+  const startIndex = events.findIndex(event => event.type === 'workflow_started');
+  if (startIndex === -1) {
+    throw new Error('Cannot replay history without a workflow_started event');
+  }
+
+  let state: WorkflowState = deepClone(events[startIndex].data.state);
+  const awaitingHuman = new Set<string>();
+  const answeredByHuman = new Set<string>();
+
+  for (const event of events.slice(startIndex + 1)) {
+    const data = event.data || {};
+
+    switch (event.type) {
+      case 'step_started':
+        if (!state.currentStepIds.includes(data.stepId)) {
+          state.currentStepIds.push(data.stepId);
+        }
+        state.stepAttempts[data.stepId] = (state.stepAttempts[data.stepId] || 0) + 1;
+        state.status = 'running';
+        break;
+
+      case 'step_retrying':
+        // The next attempt starts once the backoff delay has passed
+        state.stepAttempts[data.stepId] = data.attempt + 1;
+        break;
+
+      case 'step_skipped':
+        state.skippedSteps.push(data.stepId);
+        break;
+
+      case 'step_deferred':
+        if (data.result) {
+          state.stepData[data.stepId] = deepClone(data.result);
+        }
+        if (data.childInstanceId) {
+          state.childInstances[data.stepId] = data.childInstanceId;
+        }
+        state.deferredSteps.push(data.stepId);
+        break;
+
+      case 'step_waiting':
+        state.waitingSteps[data.stepId] = data.until;
+        break;
+
+      case 'human_input_required':
+        if (data.result) {
+          state.stepData[data.humanInput.stepId] = deepClone(data.result);
+        }
+        awaitingHuman.add(data.humanInput.stepId);
+        break;
+
+      case 'human_input_received':
+        state.stepData[data.stepId] = {
+          ...state.stepData[data.stepId],
+          humanInput: deepClone(data.input),
+          ...(data.respondedBy && { respondedBy: data.respondedBy }),
+          ...(data.respondedAt && { respondedAt: data.respondedAt })
+        };
+        awaitingHuman.delete(data.stepId);
+        answeredByHuman.add(data.stepId);
+        break;
+
+      case 'step_completed':
+        // Human answers were already stored by human_input_received
+        if (answeredByHuman.has(data.stepId)) {
+          answeredByHuman.delete(data.stepId);
+        } else if (data.result) {
+          state.stepData[data.stepId] = deepClone(data.result);
+        }
+        state.deferredSteps = state.deferredSteps.filter(id => id !== data.stepId);
+        delete state.waitingSteps[data.stepId];
+        markStepCompleted(state, data.stepId);
+        break;
+
+      case 'step_looped':
+        resetStepsForIteration(state, data.resetSteps);
+        break;
+
+      case 'workflow_completed':
+        state.status = 'completed';
+        state.currentStepIds = [];
+        break;
+
+      case 'workflow_failed':
+        state.status = 'failed';
+        state.deferredSteps = state.deferredSteps.filter(id => id !== data.stepId);
+        awaitingHuman.clear();
+        break;
+
+      case 'workflow_cancelled':
+        state.status = 'cancelled';
+        state.cancelReason = data.reason;
+        awaitingHuman.clear();
+        break;
+
+      case 'workflow_suspended':
+        state.status = 'suspended';
+        break;
+
+      case 'workflow_resumed':
+        state.status = 'running';
+        break;
+
+      case 'compensation_started':
+        state.status = 'compensating';
+        break;
+
+      case 'compensation_completed':
+        state.compensations[data.stepId] = { status: 'completed', data: deepClone(data.result), completedAt: event.timestamp };
+        break;
+
+      case 'compensation_failed':
+        state.compensations[data.stepId] = { status: 'failed', error: data.error, completedAt: event.timestamp };
+        break;
+
+      case 'workflow_compensated':
+        state.status = data.status;
+        break;
+
+      case 'workflow_migrated':
+        state = deepClone(data.state);
+        break;
+    }
+
+    state.updatedAt = event.timestamp;
+    settleStatus(state, awaitingHuman);
+  }
+
+  return state;
+}
+
+// List the fields where a replayed state differs from the live one
+export function verifyReplay(live: WorkflowState, replayed: WorkflowState): string[] {
+  return VERIFIED_FIELDS.filter(field =>
+    JSON.stringify(live[field] ?? null) !== JSON.stringify(replayed[field] ?? null)
+  );
+}
+
+// Running, paused and waiting follow from what is in flight, as in WorkflowEngine
+function settleStatus(state: WorkflowState, awaitingHuman: Set<string>): void {
+  if (state.status !== 'running' && state.status !== 'paused' && state.status !== 'waiting') return;
+
+  const executing = state.currentStepIds.filter(id =>
+    !awaitingHuman.has(id) && !state.deferredSteps.includes(id) && !(id in state.waitingSteps)
+  );
+  if (executing.length > 0) {
+    state.status = 'running';
+  } else if (state.currentStepIds.length > 0) {
+    state.status = state.currentStepIds.every(id => id in state.waitingSteps) ? 'waiting' : 'paused';
+  }
+}
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { HumanInput } from '../types/workflow.js';
+
+const APPROVE_ALIASES = ['approve', 'approved', 'yes', 'y'];
+const REJECT_ALIASES = ['reject', 'rejected', 'no', 'n'];
+
+// Accepts a decision object, a boolean or a yes/no style string
+const approvalSchema = z.preprocess(value => {
+  if (typeof value === 'boolean') return { decision: value ? 'approve' : 'reject' };
+  if (typeof value === 'string') {
+    const answer = value.trim().toLowerCase();
+    if (APPROVE_ALIASES.includes(answer)) return { decision: 'approve' };
+    if (REJECT_ALIASES.includes(answer)) return { decision: 'reject' };
+  }
+  return value;
+}, z.object({
+  decision: z.enum(['approve', 'reject']),
+  comment: z.string().optional()
+}).strict());
+
+// The schema a response to the given input must satisfy. `customSchema` comes
+// from the step config of `custom` inputs; without one any value is accepted.
+export function getResponseSchema(input: HumanInput, customSchema?: z.ZodTypeAny): z.ZodTypeAny {
+  switch (input.inputType) {
+    case 'approval':
+      return approvalSchema;
+
+    case 'choice': {
+      const options = input.options || [];
+      return z.preprocess(
+        value => (typeof value === 'string' ? value.trim() : value),
+        z.string().refine(value => options.includes(value), { message: `Expected one of: ${options.join(', ')}` })
+      );
+    }
+
+    case 'text': {
+      let text = z.string();
+      if (input.minLength !== undefined) text = text.min(input.minLength);
+      if (input.maxLength !== undefined) text = text.max(input.maxLength);
+      return text;
+    }
+
+    case 'custom':
+      return customSchema || z.any();
+
+    default:
+      return z.any();
+  }
+}
+
+// Validate a response; returns the normalized value or the problems found
+export function parseHumanResponse(
+  input: HumanInput,
+  value: any,
+  customSchema?: z.ZodTypeAny
+): { success: true; value: any } | { success: false; issues: string[] } {
+  const parsed = getResponseSchema(input, customSchema).safeParse(value);
+  if (parsed.success) {
+    return { success: true, value: parsed.data };
+  }
+
+  return {
+    success: false,
+    issues: parsed.error.issues.map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+  };
+}
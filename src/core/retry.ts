@@ -0,0 +1,37 @@
+import { RetryPolicy } from '../types/workflow.js';
+
+const DEFAULT_DELAY_MS = 1000;
+
+// Whether another attempt is allowed for this error under the policy
+export function isRetryable(policy: RetryPolicy, error?: string): boolean {
+  if (!policy.retryOn) return true;
+
+  const message = error || '';
+  if (typeof policy.retryOn === 'function') {
+    return policy.retryOn(message);
+  }
+
+  return policy.retryOn.some(pattern =>
+    typeof pattern === 'string' ? message.includes(pattern) : pattern.test(message)
+  );
+}
+
+// Delay before the attempt following `attempt` (1-based)
+export function getRetryDelay(policy: RetryPolicy, attempt: number, random: () => number = Math.random): number {
+  const baseDelay = policy.delayMs ?? DEFAULT_DELAY_MS;
+  let delay = policy.backoff === 'exponential'
+    ? baseDelay * Math.pow(2, attempt - 1)
+    : baseDelay;
+
+  if (policy.maxDelayMs !== undefined) {
+    delay = Math.min(delay, policy.maxDelayMs);
+  }
+
+  // Jitter spreads retries by up to the given fraction of the delay (true = 50%)
+  if (policy.jitter) {
+    const fraction = policy.jitter === true ? 0.5 : policy.jitter;
+    delay = delay * (1 - fraction) + delay * fraction * random();
+  }
+
+  return Math.round(delay);
+}
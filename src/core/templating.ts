@@ -0,0 +1,52 @@
+import { WorkflowState } from '../types/workflow.js';
+import { getValueAtPath } from './conditions.js';
+
+const TEMPLATE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const WHOLE_TEMPLATE_PATTERN = /^\{\{\s*([^{}]+?)\s*\}\}$/;
+
+// What template expressions can read: `steps.<stepId>.data.<path>` and `input.<path>`
+export function createTemplateContext(state: WorkflowState): Record<string, any> {
+  const steps: Record<string, { data: any }> = {};
+  for (const [stepId, data] of Object.entries(state.stepData)) {
+    steps[stepId] = { data };
+  }
+  return { steps, input: state.input || {} };
+}
+
+export function isTemplate(value: unknown): boolean {
+  return typeof value === 'string' && value.includes('{{');
+}
+
+// Replace {{ expressions }} in every string of a config value. A string that is a
+// single expression takes the referenced value as-is; otherwise values are
+// interpolated as text, with missing ones left empty.
+export function resolveTemplates<T>(value: T, context: Record<string, any>): T {
+  if (typeof value === 'string') {
+    return resolveString(value, context) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveTemplates(item, context)) as T;
+  }
+  // Only plain objects are walked; class instances such as zod schemas are left alone
+  if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const resolved: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      resolved[key] = resolveTemplates(item, context);
+    }
+    return resolved as T;
+  }
+  return value;
+}
+
+function resolveString(template: string, context: Record<string, any>): any {
+  const whole = template.match(WHOLE_TEMPLATE_PATTERN);
+  if (whole) {
+    return getValueAtPath(context, whole[1]);
+  }
+
+  return template.replace(TEMPLATE_PATTERN, (_match, expression: string) => {
+    const resolved = getValueAtPath(context, expression);
+    if (resolved === undefined || resolved === null) return '';
+    return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+  });
+}
@@ -0,0 +1,34 @@
+import { WorkflowState } from '../types/workflow.js';
+
+// State changes shared by WorkflowEngine and history replay, so both agree on the result
+
+// stepData key holding each step's outputs indexed by iteration
+export const STEP_HISTORY_KEY = '$history';
+
+export function getIteration(state: WorkflowState, stepId: string): number {
+  return state.iterations[stepId] || 0;
+}
+
+// Move a step from current to completed and keep its output in the iteration history
+export function markStepCompleted(state: WorkflowState, stepId: string): void {
+  state.currentStepIds = state.currentStepIds.filter(id => id !== stepId);
+  state.completedSteps.push(stepId);
+
+  const history: Record<string, any[]> = state.stepData[STEP_HISTORY_KEY] || (state.stepData[STEP_HISTORY_KEY] = {});
+  const stepHistory = history[stepId] || (history[stepId] = []);
+  stepHistory[getIteration(state, stepId)] = state.stepData[stepId];
+}
+
+// Start a new iteration of the given steps so they run again. Steps that have
+// not finished the current iteration yet keep its number.
+export function resetStepsForIteration(state: WorkflowState, stepIds: string[]): void {
+  for (const stepId of stepIds) {
+    const finished = state.completedSteps.includes(stepId) || state.skippedSteps.includes(stepId);
+    state.completedSteps = state.completedSteps.filter(id => id !== stepId);
+    state.skippedSteps = state.skippedSteps.filter(id => id !== stepId);
+    if (finished) {
+      state.iterations[stepId] = getIteration(state, stepId) + 1;
+    }
+    delete state.stepAttempts[stepId];
+  }
+}
@@ -0,0 +1,313 @@
+import { z } from 'zod';
+import { StepCondition, WorkflowDefinition } from '../types/workflow.js';
+import { getValueAtPath } from './conditions.js';
+import { isTemplate } from './templating.js';
+
+export const BUILT_IN_STEP_TYPES = ['agent', 'human', 'system', 'workflow', 'delay', 'quality_check'];
+
+export interface WorkflowValidationIssue {
+  code: 'invalid_schema' | 'duplicate_step_id' | 'unknown_dependency' | 'dependency_cycle' | 'unknown_step_type' | 'missing_config' | 'invalid_loop';
+  message: string;
+  stepId?: string;
+  path?: Array<string | number>;
+}
+
+export interface WorkflowValidationOptions {
+  // Step types the engine can execute
+  stepTypes?: string[];
+}
+
+const retryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1),
+  backoff: z.enum(['fixed', 'exponential']).optional(),
+  delayMs: z.number().min(0).optional(),
+  maxDelayMs: z.number().min(0).optional(),
+  jitter: z.union([z.boolean(), z.number().min(0).max(1)]).optional(),
+  retryOn: z.union([z.array(z.union([z.string(), z.instanceof(RegExp)])), z.function()]).optional()
+}).strict();
+
+// Strict, so a misspelled operator is reported instead of matching everything
+const stepConditionSchema: z.ZodType<StepCondition> = z.lazy(() => z.union([
+  z.object({
+    path: z.string().min(1),
+    equals: z.any().optional(),
+    notEquals: z.any().optional(),
+    in: z.array(z.any()).optional(),
+    exists: z.boolean().optional()
+  }).strict(),
+  z.object({ all: z.array(stepConditionSchema) }).strict(),
+  z.object({ any: z.array(stepConditionSchema) }).strict(),
+  z.object({ not: stepConditionSchema }).strict()
+], { errorMap: () => ({ message: 'must have a path, or all, any or not' }) }));
+
+// Strict too, so a misspelled key such as `dependancies` is reported instead of ignored
+const stepSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  type: z.string().min(1),
+  config: z.record(z.any()),
+  dependencies: z.array(z.string()).optional(),
+  condition: stepConditionSchema.optional(),
+  retry: retryPolicySchema.optional(),
+  loop: z.object({
+    to: z.string().min(1),
+    when: stepConditionSchema,
+    maxIterations: z.number().int().min(1).optional(),
+    onExceeded: z.enum(['fail', 'continue']).optional()
+  }).strict().optional(),
+  compensation: z.object({
+    type: z.string().min(1),
+    config: z.record(z.any()).optional()
+  }).strict().optional()
+}).strict();
+
+const workflowSchema = z.object({
+  id: z.string().min(1),
+  version: z.number().int().min(1).optional(),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  steps: z.array(stepSchema).min(1),
+  maxConcurrency: z.number().int().min(1).optional(),
+  metadata: z.record(z.any()).optional(),
+  migrate: z.function().optional()
+});
+
+// Duck-typed so schemas from another copy of zod are accepted too
+const zodSchema = z.custom<z.ZodTypeAny>(value => typeof (value as any)?.safeParse === 'function', 'must be a zod schema');
+
+const humanInputTimeoutSchema = z.object({
+  afterMs: z.number().positive(),
+  action: z.enum(['remind', 'escalate', 'default', 'fail']),
+  maxReminders: z.number().int().min(1).optional(),
+  escalateTo: z.array(z.string()).optional(),
+  defaultValue: z.any().optional()
+}).refine(timeout => timeout.action !== 'escalate' || (timeout.escalateTo && timeout.escalateTo.length > 0), {
+  message: 'escalate needs at least one assignee in escalateTo',
+  path: ['escalateTo']
+}).refine(timeout => timeout.action !== 'default' || timeout.defaultValue !== undefined, {
+  message: 'default needs a defaultValue',
+  path: ['defaultValue']
+});
+
+const quorumRequirementSchema = z.union([z.enum(['any', 'all']), z.number().int().min(1)]);
+
+const approverGroupSchema = z.object({
+  name: z.string().min(1).optional(),
+  approvers: z.array(z.string().min(1)).min(1),
+  required: quorumRequirementSchema.optional()
+}).refine(group => typeof group.required !== 'number' || group.required <= group.approvers.length, {
+  message: 'cannot require more approvals than there are approvers',
+  path: ['required']
+});
+
+const quorumSchema = z.object({
+  approvers: z.array(z.string().min(1)).min(1).optional(),
+  required: quorumRequirementSchema.optional(),
+  groups: z.array(approverGroupSchema).min(1).optional(),
+  veto: z.boolean().optional()
+}).refine(quorum => (quorum.approvers === undefined) !== (quorum.groups === undefined), {
+  message: 'set exactly one of approvers and groups',
+  path: ['approvers']
+}).refine(quorum => typeof quorum.required !== 'number' || !quorum.approvers || quorum.required <= quorum.approvers.length, {
+  message: 'cannot require more approvals than there are approvers',
+  path: ['required']
+});
+
+const humanConfigSchema = z.object({
+  prompt: z.string().min(1),
+  inputType: z.enum(['text', 'choice', 'approval', 'custom']).optional(),
+  options: z.array(z.string()).optional(),
+  minLength: z.number().int().min(0).optional(),
+  maxLength: z.number().int().min(1).optional(),
+  // Response schema for 'custom' inputs
+  schema: zodSchema.optional(),
+  timeout: humanInputTimeoutSchema.optional(),
+  quorum: quorumSchema.optional()
+}).refine(config => config.inputType !== 'choice' || (config.options && config.options.length > 0), {
+  message: 'choice inputs need at least one option',
+  path: ['options']
+}).refine(config => !config.quorum || config.inputType === undefined || config.inputType === 'approval', {
+  message: 'a quorum needs an approval input',
+  path: ['quorum']
+}).refine(config => !config.quorum || (config.timeout?.action !== 'default' && config.timeout?.action !== 'escalate'), {
+  // A default answer has no approver to record it against, and escalation
+  // would hand the input to people outside the approver set
+  message: 'quorum inputs can only time out with remind or fail',
+  path: ['timeout', 'action']
+});
+
+// Agent steps without a prompt run the placeholder, so nothing is required
+const agentConfigSchema = z.object({
+  prompt: z.string().min(1).optional(),
+  systemMessage: z.string().optional(),
+  model: z.string().min(1).optional(),
+  temperature: z.number().min(0).optional(),
+  maxTokens: z.number().int().min(1).optional(),
+  responseFormat: z.enum(['text', 'json']).optional(),
+  schema: zodSchema.optional()
+});
+
+const qualityCheckConfigSchema = z.object({
+  contentStep: z.string().min(1),
+  contentPath: z.string().min(1).optional(),
+  contentType: z.enum(['newsletter', 'blog', 'email', 'social', 'generic']).optional(),
+  preset: z.enum(['newsletter', 'blog', 'quick']).optional(),
+  qualityConfig: z.object({
+    threshold: z.number().min(0).max(10).optional(),
+    enabledAssessors: z.array(z.string()).optional(),
+    weights: z.record(z.number()).optional(),
+    assessorConfigs: z.record(z.any()).optional()
+  }).optional(),
+  prompt: z.string().min(1).optional(),
+  assignees: z.array(z.string()).optional(),
+  timeout: humanInputTimeoutSchema.optional()
+});
+
+const workflowConfigSchema = z.object({
+  workflowId: z.string().min(1),
+  version: z.number().int().min(1).optional(),
+  input: z.record(z.any()).optional()
+});
+
+const delayConfigSchema = z.object({
+  delayMs: z.number().min(0).optional(),
+  until: z.union([z.string().min(1), z.date()]).optional()
+}).refine(config => (config.delayMs === undefined) !== (config.until === undefined), {
+  message: 'set exactly one of delayMs and until',
+  path: ['delayMs']
+});
+
+// Required config per step type
+const stepConfigSchemas: Record<string, z.ZodTypeAny> = {
+  agent: agentConfigSchema,
+  human: humanConfigSchema,
+  workflow: workflowConfigSchema,
+  quality_check: qualityCheckConfigSchema,
+  delay: delayConfigSchema
+};
+
+// Check a definition before it is registered; returns an empty list when valid
+export function validateWorkflow(workflow: WorkflowDefinition, options: WorkflowValidationOptions = {}): WorkflowValidationIssue[] {
+  const parsed = workflowSchema.safeParse(workflow);
+  if (!parsed.success) {
+    // Structural checks below assume a well-formed definition
+    return parsed.error.issues.map(issue => ({
+      code: 'invalid_schema' as const,
+      message: issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message,
+      path: issue.path
+    }));
+  }
+
+  const issues: WorkflowValidationIssue[] = [];
+  const stepTypes = options.stepTypes || BUILT_IN_STEP_TYPES;
+  const stepIds = new Set<string>();
+
+  workflow.steps.forEach((step, index) => {
+    if (stepIds.has(step.id)) {
+      issues.push({ code: 'duplicate_step_id', message: `Step id ${step.id} is used more than once`, stepId: step.id, path: ['steps', index, 'id'] });
+    }
+    stepIds.add(step.id);
+
+    if (!stepTypes.includes(step.type)) {
+      issues.push({ code: 'unknown_step_type', message: `Step ${step.id} has unknown type ${step.type}`, stepId: step.id, path: ['steps', index, 'type'] });
+    }
+    if (step.compensation && !stepTypes.includes(step.compensation.type)) {
+      issues.push({ code: 'unknown_step_type', message: `Step ${step.id} has a compensation of unknown type ${step.compensation.type}`, stepId: step.id, path: ['steps', index, 'compensation', 'type'] });
+    }
+
+    const configSchema = stepConfigSchemas[step.type];
+    if (configSchema) {
+      const config = configSchema.safeParse(step.config);
+      if (!config.success) {
+        for (const issue of config.error.issues) {
+          // A {{ template }} stands in for a value that is only known at execution time
+          if (isTemplate(getValueAtPath(step.config, issue.path.join('.')))) continue;
+          issues.push({
+            code: 'missing_config',
+            message: `Step ${step.id}: config.${issue.path.join('.')} ${issue.message}`,
+            stepId: step.id,
+            path: ['steps', index, 'config', ...issue.path]
+          });
+        }
+      }
+    }
+  });
+
+  workflow.steps.forEach((step, index) => {
+    (step.dependencies || []).forEach((dependency, depIndex) => {
+      if (!stepIds.has(dependency)) {
+        issues.push({ code: 'unknown_dependency', message: `Step ${step.id} depends on unknown step ${dependency}`, stepId: step.id, path: ['steps', index, 'dependencies', depIndex] });
+      }
+    });
+
+    // The content must be there by the time the check runs
+    const contentStep = step.type === 'quality_check' ? step.config.contentStep : undefined;
+    if (typeof contentStep === 'string' && !findAncestors(workflow, step.id).has(contentStep)) {
+      issues.push({ code: 'unknown_dependency', message: `Quality check ${step.id} reads content from ${contentStep}, which it does not depend on`, stepId: step.id, path: ['steps', index, 'config', 'contentStep'] });
+    }
+  });
+
+  const cycles = findDependencyCycles(workflow);
+  for (const cycle of cycles) {
+    issues.push({ code: 'dependency_cycle', message: `Dependency cycle: ${cycle.join(' -> ')}`, stepId: cycle[0] });
+  }
+
+  // A loop may only go back to the step itself or one of its ancestors
+  if (cycles.length === 0) {
+    workflow.steps.forEach((step, index) => {
+      if (step.loop && !findAncestors(workflow, step.id).has(step.loop.to)) {
+        issues.push({ code: 'invalid_loop', message: `Step ${step.id} loops to ${step.loop.to}, which is not the step itself or one of its dependencies`, stepId: step.id, path: ['steps', index, 'loop', 'to'] });
+      }
+    });
+  }
+
+  return issues;
+}
+
+// The step and everything it transitively depends on
+function findAncestors(workflow: WorkflowDefinition, stepId: string): Set<string> {
+  const ancestors = new Set([stepId]);
+  const queue = [stepId];
+
+  while (queue.length > 0) {
+    const current = queue.shift();
+    const step = workflow.steps.find(candidate => candidate.id === current);
+    for (const dependency of step?.dependencies || []) {
+      if (!ancestors.has(dependency)) {
+        ancestors.add(dependency);
+        queue.push(dependency);
+      }
+    }
+  }
+
+  return ancestors;
+}
+
+// Depth-first search over dependencies; each cycle is reported once
+function findDependencyCycles(workflow: WorkflowDefinition): string[][] {
+  const dependencies = new Map(workflow.steps.map(step => [step.id, step.dependencies || []]));
+  const visited = new Set<string>();
+  const cycles: string[][] = [];
+
+  const visit = (stepId: string, path: string[]) => {
+    const loopStart = path.indexOf(stepId);
+    if (loopStart !== -1) {
+      cycles.push([...path.slice(loopStart), stepId]);
+      return;
+    }
+    if (visited.has(stepId)) return;
+    visited.add(stepId);
+
+    for (const dependency of dependencies.get(stepId) || []) {
+      if (dependencies.has(dependency)) {
+        visit(dependency, [...path, stepId]);
+      }
+    }
+  };
+
+  for (const step of workflow.steps) {
+    visit(step.id, []);
+  }
+
+  return cycles;
+}
@@ -1,5 +1,29 @@
-export { HITLFramework } from './core/HITLFramework.js';
-export { WorkflowEngine } from './core/WorkflowEngine.js';
+export { HITLFramework, HITLFrameworkOptions } from './core/HITLFramework.js';
+export { WorkflowEngine, WorkflowEngineOptions, StartWorkflowOptions, MigrateInstanceOptions } from './core/WorkflowEngine.js';
+export { InstanceFilter, InstanceQuery, InstancePage, WorkflowStatus, queryInstances, countInstancesByStatus } from './core/queries.js';
+export { DiagramFormat, DiagramOptions, StepDiagramStatus, renderDiagram, renderMermaid, renderDot, getStepStatuses } from './core/diagram.js';
+export { STEP_HISTORY_KEY } from './core/transitions.js';
+export { replayHistory, verifyReplay } from './core/replay.js';
+export { evaluateCondition } from './core/conditions.js';
+export { validateWorkflow, WorkflowValidationIssue, WorkflowValidationOptions, BUILT_IN_STEP_TYPES } from './core/validation.js';
+export { WorkflowValidationError, HumanInputValidationError, QueueFullError } from './core/errors.js';
+export { parseHumanResponse, getResponseSchema } from './core/responses.js';
+export { QuorumOutcome, evaluateQuorum, getApprovers, getApproverGroups } from './core/quorum.js';
+export { InboxIdentity, InboxOptions, InboxTask, GROUP_ASSIGNEE_PREFIX, groupAssignee, isAssignedTo, isInInbox } from './core/inbox.js';
+export { parseWorkflowDefinition, loadWorkflowDefinition, loadWorkflowDefinitions, WorkflowFileFormat } from './core/loader.js';
+export { resolveTemplates, createTemplateContext } from './core/templating.js';
+export { DeepReadonly, createReadonlyView, deepClone } from './core/readonly.js';
+export * from './core/handlers/index.js';
+export { Clock, TimerHandle, systemClock, sleep, ManualClock } from './core/Clock.js';
+export { Scheduler } from './core/Scheduler.js';
+export { ExecutionQueue, ExecutionQueueOptions } from './core/ExecutionQueue.js';
+export { TriggerScheduler, TriggerSchedulerOptions } from './core/TriggerScheduler.js';
+export { CronSchedule, parseCron, nextCronTime } from './core/cron.js';
+export { isRetryable, getRetryDelay } from './core/retry.js';
 export { HITLInterface, ConsoleHITL } from './interfaces/HITLInterface.js';
+export * from './persistence/index.js';
+export * from './quality/index.js';
+export * from './quality/llm/index.js';
+export * from './testing/index.js';
 export * from './types/workflow.js';
 export * from './types/events.js';
\ No newline at end of file
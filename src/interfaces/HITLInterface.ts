@@ -2,9 +2,29 @@ import { EventEmitter } from 'events';
 import { HumanInput } from '../types/workflow.js';
 
 export abstract class HITLInterface extends EventEmitter {
-  abstract requestInput(workflowId: string, input: HumanInput): Promise<void>;
+  // Answer by emitting 'human_input' with (workflowId, value, { requestId }); assigned
+  // inputs also need the responder's respondedBy and, for group assignees, groups
+  abstract requestInput(workflowId: string, input: HumanInput, requestId: string): Promise<void>;
   abstract notifyWorkflowComplete(workflowId: string, result: any): Promise<void>;
   abstract notifyWorkflowError(workflowId: string, error: string): Promise<void>;
+
+  // Called when a pending input passes its deadline with the 'remind' action
+  async remindInput(workflowId: string, input: HumanInput, requestId: string): Promise<void> {
+    await this.requestInput(workflowId, input, requestId);
+  }
+
+  // Called when a pending input is handed to new assignees
+  async escalateInput(workflowId: string, input: HumanInput, requestId: string): Promise<void> {
+    await this.requestInput(workflowId, input, requestId);
+  }
+
+  // Called when a response was rejected by validation; the input is still pending
+  async rejectInput(workflowId: string, input: HumanInput, requestId: string, _issues: string[]): Promise<void> {
+    await this.requestInput(workflowId, input, requestId);
+  }
+
+  // Called when a pending input is no longer wanted (e.g. the workflow was cancelled)
+  async withdrawInput(_workflowId: string, _input: HumanInput, _reason?: string): Promise<void> {}
 }
 
 // Console-based HITL implementation for development
@@ -19,8 +39,8 @@ export class ConsoleHITL extends HITLInterface {
     });
   }
 
-  async requestInput(workflowId: string, input: HumanInput): Promise<void> {
-    console.log(`\n🤖 Workflow ${workflowId} needs human input:`);
+  async requestInput(workflowId: string, input: HumanInput, requestId: string): Promise<void> {
+    console.log(`\n🤖 Workflow ${workflowId} needs human input (request ${requestId}):`);
     console.log(`📝 ${input.prompt}`);
     
     if (input.options) {
@@ -35,11 +55,20 @@ export class ConsoleHITL extends HITLInterface {
 
       rl.question('Your input: ', (answer: string) => {
         rl.close();
-        this.emit('human_input', workflowId, answer);
+        this.emit('human_input', workflowId, answer, { requestId });
       });
     }
   }
 
+  async rejectInput(workflowId: string, input: HumanInput, requestId: string, issues: string[]): Promise<void> {
+    console.log(`\n⚠️  Invalid response: ${issues.join('; ')}`);
+    await this.requestInput(workflowId, input, requestId);
+  }
+
+  async withdrawInput(workflowId: string, input: HumanInput, reason?: string): Promise<void> {
+    console.log(`\n🚫 Input for step ${input.stepId} of workflow ${workflowId} is no longer needed${reason ? `: ${reason}` : ''}`);
+  }
+
   async notifyWorkflowComplete(workflowId: string, result: any): Promise<void> {
     console.log(`\n✅ Workflow ${workflowId} completed!`);
     console.log('Result:', result);
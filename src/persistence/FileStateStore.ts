@@ -0,0 +1,156 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { WorkflowStateStore, WorkflowInstanceRecord } from './WorkflowStateStore.js';
+import { WorkflowEvent } from '../types/events.js';
+import { WorkflowTriggerRecord } from '../types/workflow.js';
+import { serializeValue, deserializeValue } from './serialization.js';
+
+const FILE_SUFFIX = '.state.json';
+const EVENTS_SUFFIX = '.events.jsonl';
+const TRIGGER_SUFFIX = '.trigger.json';
+
+// Stores one JSON file per instance, plus a JSON-lines event log, in a directory on disk.
+// Triggers get one JSON file each in the same directory.
+export class FileStateStore implements WorkflowStateStore {
+  private directory: string;
+  private writes = new Map<string, Promise<void>>();
+  private appends = new Map<string, Promise<void>>();
+
+  constructor(directory: string = 'workflow-states') {
+    this.directory = directory;
+  }
+
+  async save(record: WorkflowInstanceRecord): Promise<void> {
+    await this.queueWrite(this.filePath(record.state.id), serializeValue(record, 2));
+  }
+
+  async load(instanceId: string): Promise<WorkflowInstanceRecord | undefined> {
+    try {
+      const json = await fs.readFile(this.filePath(instanceId), 'utf8');
+      return deserializeValue(json);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async loadAll(): Promise<WorkflowInstanceRecord[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const records: WorkflowInstanceRecord[] = [];
+    for (const file of files.filter(name => name.endsWith(FILE_SUFFIX))) {
+      const record = await this.load(file.slice(0, -FILE_SUFFIX.length));
+      if (record) {
+        records.push(record);
+      }
+    }
+    return records;
+  }
+
+  async delete(instanceId: string): Promise<void> {
+    await fs.rm(this.filePath(instanceId), { force: true });
+    await fs.rm(this.eventsPath(instanceId), { force: true });
+  }
+
+  async appendEvent(event: WorkflowEvent): Promise<void> {
+    const instanceId = event.workflowId;
+    // Serialize now: the event may reference state that keeps changing
+    const line = `${serializeValue(event)}\n`;
+
+    const previous = this.appends.get(instanceId) || Promise.resolve();
+    const append = previous.catch(() => undefined).then(async () => {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.appendFile(this.eventsPath(instanceId), line, 'utf8');
+    });
+    this.appends.set(instanceId, append);
+
+    try {
+      await append;
+    } finally {
+      if (this.appends.get(instanceId) === append) {
+        this.appends.delete(instanceId);
+      }
+    }
+  }
+
+  async loadEvents(instanceId: string): Promise<WorkflowEvent[]> {
+    // Let queued appends land first
+    await this.appends.get(instanceId)?.catch(() => undefined);
+
+    try {
+      const content = await fs.readFile(this.eventsPath(instanceId), 'utf8');
+      return content.split('\n').filter(line => line.trim()).map(line => deserializeValue<WorkflowEvent>(line));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  async saveTrigger(record: WorkflowTriggerRecord): Promise<void> {
+    await this.queueWrite(this.triggerPath(record.trigger.id), serializeValue(record, 2));
+  }
+
+  async loadTriggers(): Promise<WorkflowTriggerRecord[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const records: WorkflowTriggerRecord[] = [];
+    for (const file of files.filter(name => name.endsWith(TRIGGER_SUFFIX))) {
+      const json = await fs.readFile(path.join(this.directory, file), 'utf8');
+      records.push(deserializeValue(json));
+    }
+    return records;
+  }
+
+  async deleteTrigger(triggerId: string): Promise<void> {
+    await this.writes.get(this.triggerPath(triggerId))?.catch(() => undefined);
+    await fs.rm(this.triggerPath(triggerId), { force: true });
+  }
+
+  // Serialize writes per file so an older snapshot never lands last
+  private async queueWrite(target: string, json: string): Promise<void> {
+    const previous = this.writes.get(target) || Promise.resolve();
+    const write = previous.catch(() => undefined).then(() => this.writeFile(target, json));
+    this.writes.set(target, write);
+
+    try {
+      await write;
+    } finally {
+      if (this.writes.get(target) === write) {
+        this.writes.delete(target);
+      }
+    }
+  }
+
+  private async writeFile(target: string, json: string): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write to a temp file and rename so a crash never leaves a half-written state
+    const temp = `${target}.tmp`;
+    await fs.writeFile(temp, json, 'utf8');
+    await fs.rename(temp, target);
+  }
+
+  private filePath(instanceId: string): string {
+    return path.join(this.directory, `${instanceId}${FILE_SUFFIX}`);
+  }
+
+  private eventsPath(instanceId: string): string {
+    return path.join(this.directory, `${instanceId}${EVENTS_SUFFIX}`);
+  }
+
+  private triggerPath(triggerId: string): string {
+    return path.join(this.directory, `${triggerId}${TRIGGER_SUFFIX}`);
+  }
+}
@@ -0,0 +1,51 @@
+import { WorkflowStateStore, WorkflowInstanceRecord } from './WorkflowStateStore.js';
+import { WorkflowEvent } from '../types/events.js';
+import { WorkflowTriggerRecord } from '../types/workflow.js';
+import { serializeValue, deserializeValue } from './serialization.js';
+
+// Default store: keeps serialized copies so callers can't mutate stored records
+export class InMemoryStateStore implements WorkflowStateStore {
+  private records = new Map<string, string>();
+  private events = new Map<string, string[]>();
+  private triggers = new Map<string, string>();
+
+  async save(record: WorkflowInstanceRecord): Promise<void> {
+    this.records.set(record.state.id, serializeValue(record));
+  }
+
+  async load(instanceId: string): Promise<WorkflowInstanceRecord | undefined> {
+    const json = this.records.get(instanceId);
+    return json ? deserializeValue(json) : undefined;
+  }
+
+  async loadAll(): Promise<WorkflowInstanceRecord[]> {
+    return Array.from(this.records.values()).map(json => deserializeValue(json));
+  }
+
+  async delete(instanceId: string): Promise<void> {
+    this.records.delete(instanceId);
+    this.events.delete(instanceId);
+  }
+
+  async appendEvent(event: WorkflowEvent): Promise<void> {
+    const log = this.events.get(event.workflowId) || [];
+    log.push(serializeValue(event));
+    this.events.set(event.workflowId, log);
+  }
+
+  async loadEvents(instanceId: string): Promise<WorkflowEvent[]> {
+    return (this.events.get(instanceId) || []).map(json => deserializeValue(json));
+  }
+
+  async saveTrigger(record: WorkflowTriggerRecord): Promise<void> {
+    this.triggers.set(record.trigger.id, serializeValue(record));
+  }
+
+  async loadTriggers(): Promise<WorkflowTriggerRecord[]> {
+    return Array.from(this.triggers.values()).map(json => deserializeValue(json));
+  }
+
+  async deleteTrigger(triggerId: string): Promise<void> {
+    this.triggers.delete(triggerId);
+  }
+}
@@ -0,0 +1,25 @@
+import { WorkflowState, HumanInput, WorkflowTriggerRecord } from '../types/workflow.js';
+import { WorkflowEvent } from '../types/events.js';
+
+// Everything the engine needs to bring an instance back after a restart
+export interface WorkflowInstanceRecord {
+  state: WorkflowState;
+  pendingHumanInputs?: HumanInput[];
+  // Written by earlier versions that held one pending input per instance
+  pendingHumanInput?: HumanInput;
+}
+
+// Storage backend that WorkflowEngine writes through on every state transition
+export interface WorkflowStateStore {
+  save(record: WorkflowInstanceRecord): Promise<void>;
+  load(instanceId: string): Promise<WorkflowInstanceRecord | undefined>;
+  loadAll(): Promise<WorkflowInstanceRecord[]>;
+  delete(instanceId: string): Promise<void>;
+  // Append-only event log per instance, in emission order
+  appendEvent(event: WorkflowEvent): Promise<void>;
+  loadEvents(instanceId: string): Promise<WorkflowEvent[]>;
+  // Scheduled workflow triggers, so schedules survive restarts
+  saveTrigger(record: WorkflowTriggerRecord): Promise<void>;
+  loadTriggers(): Promise<WorkflowTriggerRecord[]>;
+  deleteTrigger(triggerId: string): Promise<void>;
+}
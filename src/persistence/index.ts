@@ -0,0 +1,3 @@
+export * from './WorkflowStateStore.js';
+export { InMemoryStateStore } from './InMemoryStateStore.js';
+export { FileStateStore } from './FileStateStore.js';
@@ -0,0 +1,32 @@
+const DATE_TAG = '$date';
+
+// JSON round-trip that keeps Date values (createdAt, updatedAt, ...) as Dates.
+// Functions are dropped and circular references are cut, so events carrying
+// step definitions or live state can be stored safely.
+export function serializeValue(value: unknown, space?: number): string {
+  const ancestors: any[] = [];
+
+  return JSON.stringify(value, function (this: any, key: string, current: any) {
+    const raw = this[key];
+    if (raw instanceof Date) return { [DATE_TAG]: raw.toISOString() };
+    if (current === null || typeof current !== 'object') return current;
+
+    // Keep only the chain of objects leading to the current one
+    while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) {
+      ancestors.pop();
+    }
+    if (ancestors.includes(current)) return '[Circular]';
+    ancestors.push(current);
+
+    return current;
+  }, space);
+}
+
+export function deserializeValue<T = any>(json: string): T {
+  return JSON.parse(json, (_key, value) => {
+    if (value && typeof value === 'object' && typeof value[DATE_TAG] === 'string' && Object.keys(value).length === 1) {
+      return new Date(value[DATE_TAG]);
+    }
+    return value;
+  });
+}
@@ -0,0 +1,112 @@
+import { HITLInterface } from '../interfaces/HITLInterface.js';
+import { HumanInput, ProvideInputOptions } from '../types/workflow.js';
+import { GROUP_ASSIGNEE_PREFIX } from '../core/inbox.js';
+
+export interface SimulatedRequest {
+  workflowId: string;
+  requestId: string;
+  input: HumanInput;
+  // How many times this step has asked so far in the instance, starting at 1
+  attempt: number;
+  // The scripted answer, or undefined when the request was left unanswered
+  response?: any;
+  // Validation issues when the answer was rejected
+  rejected?: string[];
+}
+
+// Works out the answer for a request; return undefined to leave it pending
+export type SimulatedResponder = (input: HumanInput, request: SimulatedRequest) => any | Promise<any>;
+
+// A fixed answer, or a responder that works it out
+export type SimulatedAnswer = SimulatedResponder | string | number | boolean | null | any[] | Record<string, any>;
+
+// Answers per step id, or one responder for every step. Quorum inputs are
+// answered by approver: { ana: 'approve', bo: 'reject' }.
+export type SimulatedResponses = Record<string, SimulatedAnswer> | SimulatedResponder;
+
+export interface SimulatedHITLOptions {
+  // Recorded as respondedBy on answers to inputs without a user assignee
+  respondedBy?: string;
+  // Stop answering a request after this many rejected answers
+  maxRejections?: number;
+}
+
+// HITLInterface that answers from a script instead of a person, for tests
+export class SimulatedHITL extends HITLInterface {
+  readonly requests: SimulatedRequest[] = [];
+  readonly completed: Array<{ workflowId: string; result: any }> = [];
+  readonly errors: Array<{ workflowId: string; error: string }> = [];
+  private responses: SimulatedResponses;
+  private respondedBy: string;
+  private maxRejections: number;
+
+  constructor(responses: SimulatedResponses = {}, options: SimulatedHITLOptions = {}) {
+    super();
+    this.responses = responses;
+    this.respondedBy = options.respondedBy || 'simulation';
+    this.maxRejections = options.maxRejections ?? 3;
+  }
+
+  async requestInput(workflowId: string, input: HumanInput, requestId: string): Promise<void> {
+    const attempt = this.requests.filter(request => request.workflowId === workflowId && request.input.stepId === input.stepId).length + 1;
+    const request: SimulatedRequest = { workflowId, requestId, input, attempt };
+    this.requests.push(request);
+
+    request.response = await this.getResponse(input, request);
+    if (request.response === undefined) return;
+
+    if (input.quorum && isApproverAnswers(request.response)) {
+      // Each approver answers in turn; answers after the quorum settles are ignored
+      for (const [respondedBy, answer] of Object.entries(request.response)) {
+        this.emit('human_input', workflowId, answer, { requestId, respondedBy });
+      }
+      return;
+    }
+    this.emit('human_input', workflowId, request.response, { requestId, ...this.getResponder(input) });
+  }
+
+  async rejectInput(workflowId: string, input: HumanInput, requestId: string, issues: string[]): Promise<void> {
+    const answered = this.requests.filter(request => request.requestId === requestId);
+    answered[answered.length - 1].rejected = issues;
+
+    if (answered.length <= this.maxRejections) {
+      await super.rejectInput(workflowId, input, requestId, issues);
+    }
+  }
+
+  async notifyWorkflowComplete(workflowId: string, result: any): Promise<void> {
+    this.completed.push({ workflowId, result });
+  }
+
+  async notifyWorkflowError(workflowId: string, error: string): Promise<void> {
+    this.errors.push({ workflowId, error });
+  }
+
+  // Requests that got no scripted answer
+  getUnanswered(): SimulatedRequest[] {
+    return this.requests.filter(request => request.response === undefined);
+  }
+
+  // Answer as the input's first assignee, or as a member of its group
+  private getResponder(input: HumanInput): ProvideInputOptions {
+    const assignee = input.assignees?.[0];
+    if (!assignee) return { respondedBy: this.respondedBy };
+    if (assignee.startsWith(GROUP_ASSIGNEE_PREFIX)) {
+      return { respondedBy: this.respondedBy, groups: [assignee.slice(GROUP_ASSIGNEE_PREFIX.length)] };
+    }
+    return { respondedBy: assignee };
+  }
+
+  private async getResponse(input: HumanInput, request: SimulatedRequest): Promise<any> {
+    if (typeof this.responses === 'function') {
+      return await this.responses(input, request);
+    }
+
+    const response = this.responses[input.stepId];
+    return typeof response === 'function' ? await response(input, request) : response;
+  }
+}
+
+function isApproverAnswers(response: any): response is Record<string, any> {
+  return typeof response === 'object' && response !== null && !Array.isArray(response);
+}
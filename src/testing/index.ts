@@ -0,0 +1,2 @@
+export { SimulatedHITL, SimulatedHITLOptions, SimulatedRequest, SimulatedResponder, SimulatedResponses, SimulatedAnswer } from './SimulatedHITL.js';
+export { simulateWorkflow, SimulationOptions, SimulationResult, AgentStub } from './simulate.js';
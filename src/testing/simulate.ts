@@ -0,0 +1,137 @@
+import { HITLFramework } from '../core/HITLFramework.js';
+import { ManualClock } from '../core/Clock.js';
+import { StepHandler, WorkflowLogger } from '../core/handlers/StepHandler.js';
+import { DeepReadonly, deepClone } from '../core/readonly.js';
+import { WorkflowDefinition, WorkflowState, WorkflowStep, HumanInput } from '../types/workflow.js';
+import { WorkflowEvent } from '../types/events.js';
+import { SimulatedHITL, SimulatedRequest, SimulatedResponses } from './SimulatedHITL.js';
+
+// Output of an `agent` step: a fixed value, or computed from the step and state.
+// Throwing fails the step like a real agent error would.
+export type AgentStub =
+  | ((step: WorkflowStep, state: DeepReadonly<WorkflowState>) => any | Promise<any>)
+  | string | number | boolean | null | any[] | Record<string, any>;
+
+export interface SimulationOptions {
+  // Initial data for the instance
+  input?: Record<string, any>;
+  // Scripted human answers (see SimulatedHITL)
+  responses?: SimulatedResponses;
+  // Stubbed `agent` step outputs by step id; unstubbed agent steps fail
+  agentOutputs?: Record<string, AgentStub>;
+  // Handlers for custom step types, registered before the workflows
+  stepHandlers?: Record<string, StepHandler>;
+  // Other workflows the one under test starts as sub-workflows
+  workflows?: WorkflowDefinition[];
+  // Simulated start time (epoch by default)
+  startTime?: Date;
+  // How far the simulated clock may move forward for delays, retries and deadlines
+  maxDurationMs?: number;
+}
+
+export interface SimulationResult {
+  instanceId: string;
+  // Final state, or the state the instance got stuck in (e.g. paused on an unanswered input)
+  state: WorkflowState;
+  // Every event of the run in order, child instances included
+  events: WorkflowEvent[];
+  requests: SimulatedRequest[];
+  pendingInputs: HumanInput[];
+  // Simulated time spent
+  durationMs: number;
+}
+
+const DEFAULT_MAX_DURATION_MS = 365 * 24 * 60 * 60 * 1000;
+// Event-loop turns without new events after which the run counts as idle
+const IDLE_TURNS = 3;
+
+const silentLogger: WorkflowLogger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined
+};
+
+// Run a workflow start to finish against scripted answers and stubbed agents, on
+// a manual clock with sequential ids, so the same script always gives the same
+// state and event trace. Handlers must not wait on real timers or I/O.
+export async function simulateWorkflow(workflow: WorkflowDefinition, options: SimulationOptions = {}): Promise<SimulationResult> {
+  const clock = new ManualClock(options.startTime ?? 0);
+  const startedAt = clock.now().getTime();
+  const deadline = startedAt + (options.maxDurationMs ?? DEFAULT_MAX_DURATION_MS);
+  let nextId = 0;
+
+  const hitl = new SimulatedHITL(options.responses);
+  const framework = new HITLFramework(hitl, {
+    clock,
+    logger: silentLogger,
+    idGenerator: () => `sim-${++nextId}`
+  });
+
+  // Copied as emitted; event data can point at the live instance state
+  const events: WorkflowEvent[] = [];
+  framework.on('workflow_event', event => events.push(deepClone(event)));
+
+  framework.registerStepHandler('agent', createAgentStub(options.agentOutputs || {}));
+  for (const [type, handler] of Object.entries(options.stepHandlers || {})) {
+    framework.registerStepHandler(type, handler);
+  }
+  for (const other of options.workflows || []) {
+    framework.registerWorkflow(other);
+  }
+  framework.registerWorkflow(workflow);
+
+  const instanceId = await framework.startWorkflow(workflow.id, options.input, { version: workflow.version });
+
+  for (;;) {
+    await waitUntilIdle(clock, events, framework);
+
+    const state = framework.getWorkflowState(instanceId)!;
+    const nextTimerAt = clock.nextTimerAt();
+    const settled = ['completed', 'failed', 'cancelled', 'compensated', 'compensation_failed'].includes(state.status);
+    if (settled || !nextTimerAt || nextTimerAt.getTime() > deadline) break;
+
+    // Nothing left to do until the next delay, retry or deadline
+    await clock.advanceTo(nextTimerAt);
+  }
+
+  return {
+    instanceId,
+    state: framework.getWorkflowState(instanceId)!,
+    events,
+    requests: hitl.requests,
+    pendingInputs: framework.getPendingInput(instanceId),
+    durationMs: clock.now().getTime() - startedAt
+  };
+}
+
+function createAgentStub(outputs: Record<string, AgentStub>): StepHandler {
+  return {
+    async execute(step, state) {
+      if (!(step.id in outputs)) {
+        throw new Error(`No stubbed output for agent step ${step.id}`);
+      }
+      const output = outputs[step.id];
+      const data = typeof output === 'function' ? await output(step, state) : output;
+      return { stepId: step.id, success: true, data };
+    }
+  };
+}
+
+// Let queued work and answers run until several turns pass without new events.
+// Runs still active then are waiting on the clock, e.g. for a retry backoff.
+async function waitUntilIdle(clock: ManualClock, events: WorkflowEvent[], framework: HITLFramework): Promise<void> {
+  let quietTurns = 0;
+  let seen = events.length;
+
+  while (quietTurns < IDLE_TURNS) {
+    await clock.advance(0);
+    const { active, queued } = framework.getQueueStats();
+    if (events.length === seen && queued === 0 && (active === 0 || clock.nextTimerAt())) {
+      quietTurns++;
+    } else {
+      quietTurns = 0;
+      seen = events.length;
+    }
+  }
+}
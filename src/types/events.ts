@@ -1,9 +1,39 @@
-export interface WorkflowEvent {
+export type WorkflowEventType =
+    | 'workflow_started'
+    | 'step_started'
+    | 'step_completed'
+    | 'step_skipped'
+    | 'step_retrying'
+    | 'step_deferred'
+    | 'step_waiting'
+    | 'step_looped'
+    | 'step_event'
+    | 'human_input_required'
+    | 'human_input_received'
+    | 'approval_received'
+    | 'human_input_expired'
+    | 'human_input_escalated'
+    | 'human_input_claimed'
+    | 'human_input_released'
+    | 'human_input_reassigned'
+    | 'workflow_completed'
+    | 'workflow_failed'
+    | 'workflow_cancelled'
+    | 'workflow_suspended'
+    | 'workflow_resumed'
+    | 'workflow_migrated'
+    | 'compensation_started'
+    | 'compensation_completed'
+    | 'compensation_failed'
+    | 'workflow_compensated';
+
+  export interface WorkflowEvent {
     id: string;
+    // The workflow instance the event belongs to
     workflowId: string;
-    type: 'step_started' | 'step_completed' | 'human_input_required' | 'workflow_completed' | 'workflow_failed';
+    type: WorkflowEventType;
     timestamp: Date;
     data: any;
   }
   
-  export type EventHandler = (event: WorkflowEvent) => void | Promise<void>;
\ No newline at end of file
+  export type EventHandler = (event: WorkflowEvent) => void | Promise<void>;
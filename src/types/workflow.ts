@@ -1,36 +1,220 @@
-export interface WorkflowStep {
+export type BuiltInStepType = 'agent' | 'human' | 'system' | 'workflow' | 'delay' | 'quality_check';
+
+  export interface WorkflowStep {
     id: string;
     name: string;
-    type: 'agent' | 'human' | 'system';
+    // A built-in type or any type registered with registerStepHandler
+    type: BuiltInStepType | (string & {});
     config: Record<string, any>;
     dependencies?: string[];
+    // Run the step only when this holds; otherwise it is marked skipped
+    condition?: StepCondition;
+    retry?: RetryPolicy;
+    // Go back to an earlier step (e.g. for a revision) once this step completes
+    loop?: StepLoop;
+    // Undoes this step's work if the instance fails after it completed
+    compensation?: StepCompensation;
   }
+
+  // Runs through the step handler registered for `type`, like a regular step
+  export interface StepCompensation {
+    type: string;
+    config?: Record<string, any>;
+  }
+
+  export interface CompensationOutcome {
+    status: 'completed' | 'failed';
+    data?: any;
+    error?: string;
+    completedAt: Date;
+  }
+
+  export interface StepLoop {
+    // Step to go back to; it and every step downstream of it run again
+    to: string;
+    // Loop back when this holds after the step completes
+    when: StepCondition;
+    // How many iterations the target may run in total (default 3)
+    maxIterations?: number;
+    // When the guard trips: fail the workflow (default) or carry on forward
+    onExceeded?: 'fail' | 'continue';
+  }
+
+  export interface RetryPolicy {
+    // Total attempts, including the first one
+    maxAttempts: number;
+    backoff?: 'fixed' | 'exponential';
+    // Base delay between attempts (default 1000ms)
+    delayMs?: number;
+    maxDelayMs?: number;
+    // true for up to 50% jitter, or the fraction of the delay to randomize
+    jitter?: boolean | number;
+    // Error message patterns (or a predicate) that may be retried; all errors when omitted
+    retryOn?: Array<string | RegExp> | ((error: string) => boolean);
+  }
+
+  // Compares the value at a dot path into stepData, e.g. "human-review.humanInput"
+  export interface PathCondition {
+    path: string;
+    equals?: any;
+    notEquals?: any;
+    in?: any[];
+    exists?: boolean;
+  }
+
+  export type StepCondition =
+    | PathCondition
+    | { all: StepCondition[] }
+    | { any: StepCondition[] }
+    | { not: StepCondition };
   
   export interface WorkflowDefinition {
     id: string;
+    // Instances stay on the version they started with (default 1)
+    version?: number;
     name: string;
     description?: string;
     steps: WorkflowStep[];
+    // Maximum number of steps of one instance executing at the same time
+    maxConcurrency?: number;
     metadata?: Record<string, any>;
+    // Adjusts a paused instance moved onto this version by migrateInstance
+    migrate?: WorkflowMigration;
+  }
+
+  // Starts a workflow on a cron schedule (see HITLFramework.addTrigger)
+  export interface WorkflowTrigger {
+    id: string;
+    workflowId: string;
+    // Five fields: minute hour day-of-month month day-of-week, e.g. '0 9 * * 1'
+    cron: string;
+    input?: Record<string, any>;
+    version?: number;
+    // Evaluate the schedule in UTC instead of the local time zone
+    utc?: boolean;
   }
+
+  // A trigger as persisted, with its schedule position
+  export interface WorkflowTriggerRecord {
+    trigger: WorkflowTrigger;
+    nextRunAt: Date;
+    lastRunAt?: Date;
+    lastInstanceId?: string;
+  }
+
+  export type WorkflowMigration = (state: WorkflowState, fromVersion: number, toVersion: number) => WorkflowState | void;
   
   export interface WorkflowState {
     id: string;
     workflowId: string;
-    currentStepId?: string;
+    workflowVersion: number;
+    currentStepIds: string[];
     completedSteps: string[];
+    skippedSteps: string[];
+    // Current steps waiting on something outside the engine, such as a child workflow
+    deferredSteps: string[];
+    // Current steps parked until a point in time (e.g. `delay` steps), by step id
+    waitingSteps: Record<string, Date>;
+    // Attempts made per step, including retries
+    stepAttempts: Record<string, number>;
+    // Current iteration per step (0 when a step has not looped)
+    iterations: Record<string, number>;
+    // The data the instance was started with, readable as {{ input.* }} in step configs
+    input: Record<string, any>;
     stepData: Record<string, any>;
-    status: 'pending' | 'running' | 'paused' | 'completed' | 'failed';
+    status:
+      | 'pending' | 'running' | 'paused' | 'waiting' | 'suspended' | 'completed' | 'failed' | 'cancelled'
+      | 'compensating' | 'compensated' | 'compensation_failed';
+    // Outcome of each compensation run after a failure
+    compensations: Record<string, CompensationOutcome>;
+    cancelReason?: string;
+    // Set on instances started by a `workflow` step
+    parentInstanceId?: string;
+    parentStepId?: string;
+    // Child instance started by each `workflow` step of this instance
+    childInstances: Record<string, string>;
     createdAt: Date;
     updatedAt: Date;
   }
   
   export interface HumanInput {
     stepId: string;
+    // Set by the engine when the input is requested; identifies it in provideInput
+    requestId?: string;
     prompt: string;
     inputType: 'text' | 'choice' | 'approval' | 'custom';
     options?: string[];
+    // Length limits for 'text' responses
+    minLength?: number;
+    maxLength?: number;
     metadata?: Record<string, any>;
+    // Who is expected to answer: user ids, or groups as 'group:<name>' (replaced
+    // on escalation and reassignment)
+    assignees?: string[];
+    // The user working on the input; only they may answer it until it is released
+    claimedBy?: string;
+    claimedAt?: Date;
+    // Set when an assignee handed the input on to someone else
+    delegatedBy?: string;
+    // Set by the engine from `timeout` when the input is requested
+    deadline?: Date;
+    timeout?: HumanInputTimeout;
+    reminders?: number;
+    escalated?: boolean;
+    // 'approval' inputs answered by several people; see QuorumPolicy
+    quorum?: QuorumPolicy;
+    // Responses collected so far towards the quorum
+    responses?: ApproverResponse[];
+  }
+
+  // Normalized response to an 'approval' input
+  export interface ApprovalResponse {
+    decision: 'approve' | 'reject';
+    comment?: string;
+  }
+
+  // Who must approve an 'approval' input before its step completes. Give either
+  // one set of `approvers` or `groups` that must each reach their own quorum.
+  export interface QuorumPolicy {
+    approvers?: string[];
+    // Approvals needed: 'any' (one), 'all' (the default) or a number
+    required?: QuorumRequirement;
+    groups?: ApproverGroup[];
+    // A single rejection rejects the step; otherwise it is rejected only once
+    // the remaining approvers can no longer reach the quorum
+    veto?: boolean;
+  }
+
+  export type QuorumRequirement = 'any' | 'all' | number;
+
+  export interface ApproverGroup {
+    name?: string;
+    approvers: string[];
+    required?: QuorumRequirement;
+  }
+
+  export interface ApproverResponse {
+    respondedBy: string;
+    decision: 'approve' | 'reject';
+    comment?: string;
+    respondedAt: Date;
+  }
+
+  // Stored as the step's humanInput once a quorum is approved or rejected
+  export interface QuorumResponse extends ApprovalResponse {
+    responses: ApproverResponse[];
+  }
+
+  // What happens when nobody answers a human step in time
+  export interface HumanInputTimeout {
+    afterMs: number;
+    action: 'remind' | 'escalate' | 'default' | 'fail';
+    // 'remind': stop reminding after this many reminders (unlimited when omitted)
+    maxReminders?: number;
+    // 'escalate': the assignees that take over
+    escalateTo?: string[];
+    // 'default': the answer applied on the human's behalf
+    defaultValue?: any;
   }
   
   export interface StepResult {
@@ -39,4 +223,17 @@ export interface WorkflowStep {
     data?: any;
     error?: string;
     requiresHuman?: HumanInput;
+    // The step stays current until WorkflowEngine.completeDeferredStep is called
+    deferred?: boolean;
+    // The step completes on its own once this time has passed
+    waitUntil?: Date;
+  }
+  
+  export interface ProvideInputOptions {
+    // Who answered, recorded in the instance history
+    respondedBy?: string;
+    // Groups of the responder, for inputs assigned to a group
+    groups?: string[];
+    // The pending input being answered; optional while only one is pending
+    requestId?: string;
   }
\ No newline at end of file
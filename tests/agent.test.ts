@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import { HITLFramework, LLMManager, ManualClock, WorkflowDefinition } from '../src/index.js';
+
+function createLogger() {
+  return { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+}
+
+async function settle(clock: ManualClock): Promise<void> {
+  for (let i = 0; i < 5; i++) await clock.advance(0);
+}
+
+function triage(config: Record<string, any>): WorkflowDefinition {
+  return {
+    id: 'triage',
+    name: 'Triage',
+    steps: [
+      { id: 'classify', name: 'Classify', type: 'agent', config: { prompt: 'Classify {{ input.ticket }}', ...config } },
+      { id: 'route', name: 'Route', type: 'system', config: {}, dependencies: ['classify'] }
+    ]
+  };
+}
+
+// Runs the workflow against an LLMManager whose chat() always gives `reply`
+async function run(workflow: WorkflowDefinition, reply?: string) {
+  const clock = new ManualClock(0);
+  let llm: LLMManager | undefined;
+  if (reply !== undefined) {
+    llm = new LLMManager({ primaryProvider: 'openai', providers: {} });
+    jest.spyOn(llm, 'chat').mockResolvedValue({ content: reply, model: 'test-model', provider: 'openai' });
+  }
+  const framework = new HITLFramework(undefined, { clock, llm, logger: createLogger() });
+  framework.registerWorkflow(workflow);
+  let error: string | undefined;
+  framework.on('workflow_event', event => {
+    if (event.type === 'workflow_failed') error = event.data.error;
+  });
+
+  const instanceId = await framework.startWorkflow(workflow.id, { ticket: 'Login broken' });
+  await settle(clock);
+  return { state: framework.getWorkflowState(instanceId)!, error, llm };
+}
+
+describe('agent steps', () => {
+  it('send the resolved prompt and keep the text reply', async () => {
+    const { state, llm } = await run(triage({ systemMessage: 'You triage tickets.', model: 'small' }), 'bug');
+
+    expect(llm!.chat).toHaveBeenCalledWith(
+      [{ role: 'system', content: 'You triage tickets.' }, { role: 'user', content: 'Classify Login broken' }],
+      { model: 'small', temperature: undefined, maxTokens: undefined }
+    );
+    expect(state.status).toBe('completed');
+    expect(state.stepData.classify).toEqual({ content: 'bug', model: 'test-model', provider: 'openai', usage: undefined });
+  });
+
+  it('parse JSON replies, code fence or not', async () => {
+    const plain = await run(triage({ responseFormat: 'json' }), '{"kind":"bug","priority":2}');
+    const fenced = await run(triage({ responseFormat: 'json' }), '```json\n{"kind":"bug","priority":2}\n```');
+
+    expect(plain.state.stepData.classify.output).toEqual({ kind: 'bug', priority: 2 });
+    expect(fenced.state.stepData.classify.output).toEqual({ kind: 'bug', priority: 2 });
+  });
+
+  it('check JSON replies against the step schema', async () => {
+    const schema = z.object({ kind: z.enum(['bug', 'question']), priority: z.number().default(3) });
+    const { state } = await run(triage({ schema }), '{"kind":"question"}');
+
+    expect(state.status).toBe('completed');
+    expect(state.stepData.classify.output).toEqual({ kind: 'question', priority: 3 });
+  });
+
+  it('fail the step when the reply is not JSON', async () => {
+    const { state, error } = await run(triage({ responseFormat: 'json' }), 'It is a bug.');
+
+    expect(state.status).toBe('failed');
+    expect(state.completedSteps).toEqual([]);
+    expect(error).toMatch(/^Agent step classify did not reply with valid JSON: /);
+  });
+
+  it('fail the step when the reply does not match the schema', async () => {
+    const schema = z.object({ kind: z.enum(['bug', 'question']), priority: z.number() });
+    const { state, error } = await run(triage({ schema }), '{"kind":"rant","priority":"high"}');
+
+    expect(state.status).toBe('failed');
+    expect(error).toMatch(/^Agent step classify reply does not match its schema: kind: .+; priority: Expected number, received string$/);
+  });
+
+  it('fail prompted steps when no LLMManager is configured', async () => {
+    const { state, error } = await run(triage({}));
+
+    expect(state.status).toBe('failed');
+    expect(error).toBe('Agent step classify has a prompt but no LLMManager is configured');
+  });
+});
@@ -0,0 +1,48 @@
+import { nextCronTime, parseCron } from '../src/index.js';
+
+function nextUtc(expression: string, after: string): string {
+  return nextCronTime(parseCron(expression), new Date(after), { utc: true }).toISOString();
+}
+
+describe('cron schedules', () => {
+  it('find the next matching minute strictly after the given time', () => {
+    expect(nextUtc('*/15 * * * *', '2026-01-01T10:07:30Z')).toBe('2026-01-01T10:15:00.000Z');
+    expect(nextUtc('0 9 * * *', '2026-01-01T09:00:00Z')).toBe('2026-01-02T09:00:00.000Z');
+    expect(nextUtc('0 9-17/4 * * *', '2026-01-01T13:30:00Z')).toBe('2026-01-01T17:00:00.000Z');
+  });
+
+  it('roll over into the next matching month and year', () => {
+    expect(nextUtc('0 0 1 1,7 *', '2026-02-01T00:00:00Z')).toBe('2026-07-01T00:00:00.000Z');
+    expect(nextUtc('30 23 31 12 *', '2026-12-31T23:30:00Z')).toBe('2027-12-31T23:30:00.000Z');
+    expect(nextUtc('0 0 29 2 *', '2026-01-01T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+  });
+
+  it('match days of the week, with 7 as Sunday', () => {
+    // 2026-01-02 is a Friday
+    expect(nextUtc('30 9 * * 1-5', '2026-01-02T10:00:00Z')).toBe('2026-01-05T09:30:00.000Z');
+    expect(nextUtc('0 12 * * 7', '2026-01-01T00:00:00Z')).toBe('2026-01-04T12:00:00.000Z');
+    expect(nextUtc('0 12 * * 0', '2026-01-01T00:00:00Z')).toBe('2026-01-04T12:00:00.000Z');
+  });
+
+  it('match either day field when both are restricted', () => {
+    // The 13th, or any Friday
+    expect(nextUtc('0 0 13 * 5', '2026-01-01T00:00:00Z')).toBe('2026-01-02T00:00:00.000Z');
+    expect(nextUtc('0 0 13 * 5', '2026-01-09T00:00:00Z')).toBe('2026-01-13T00:00:00.000Z');
+    // Restricting only the day of month ignores the weekday
+    expect(nextUtc('0 0 13 * *', '2026-01-01T00:00:00Z')).toBe('2026-01-13T00:00:00.000Z');
+  });
+
+  it('use the local time zone unless asked for UTC', () => {
+    const after = new Date(2026, 5, 1, 8, 30);
+
+    expect(nextCronTime(parseCron('0 9 * * *'), after)).toEqual(new Date(2026, 5, 1, 9, 0));
+  });
+
+  it('reject malformed expressions and ones that never match', () => {
+    expect(() => parseCron('0 9 * *')).toThrow('expected 5 fields, got 4');
+    expect(() => parseCron('60 * * * *')).toThrow('bad minute field "60"');
+    expect(() => parseCron('0 9 * * 1-8')).toThrow('bad day of week field "1-8"');
+    expect(() => parseCron('*/0 * * * *')).toThrow('bad minute field "*/0"');
+    expect(() => nextCronTime(parseCron('0 0 31 2 *'), new Date('2026-01-01T00:00:00Z'), { utc: true })).toThrow('never matches');
+  });
+});
@@ -0,0 +1,81 @@
+import { getStepStatuses, renderDiagram, simulateWorkflow, SimulationOptions, WorkflowDefinition } from '../src/index.js';
+
+const article: WorkflowDefinition = {
+  id: 'article',
+  name: 'Article',
+  steps: [
+    { id: 'draft', name: 'Write "draft"', type: 'agent', config: {} },
+    {
+      id: 'review',
+      name: 'Review',
+      type: 'human',
+      config: { prompt: 'Publish?', inputType: 'choice', options: ['publish', 'revise', 'drop'] },
+      dependencies: ['draft'],
+      loop: { to: 'draft', when: { path: 'review.humanInput', equals: 'revise' } }
+    },
+    { id: 'publish', name: 'Publish', type: 'system', config: {}, dependencies: ['review'], condition: { path: 'review.humanInput', equals: 'publish' } },
+    { id: 'notify', name: 'Notify', type: 'slack', config: {}, dependencies: ['publish'] }
+  ]
+};
+
+const stubs: SimulationOptions = {
+  agentOutputs: { draft: { text: 'draft' } },
+  stepHandlers: { slack: { execute: async step => ({ stepId: step.id, success: true }) } }
+};
+
+describe('workflow diagrams', () => {
+  it('render Mermaid flowcharts with loops as dashed arrows', () => {
+    expect(renderDiagram(article, 'mermaid')).toBe([
+      'flowchart TD',
+      '  step0("Write #quot;draft#quot;<br/>(agent)")',
+      '  step1{{"Review<br/>(human)"}}',
+      '  step2["Publish<br/>(system)"]',
+      '  step3[/"Notify<br/>(slack)"/]',
+      '  step0 --> step1',
+      '  step1 --> step2',
+      '  step2 --> step3',
+      '  step1 -.->|loop| step0'
+    ].join('\n'));
+  });
+
+  it('render DOT digraphs with the same edges', () => {
+    expect(renderDiagram(article, 'dot')).toBe([
+      'digraph "article" {',
+      '  rankdir=TB;',
+      '  node [style=filled, fillcolor="#ffffff", fontname="Helvetica"];',
+      '  "draft" [label="Write \\"draft\\"\\n(agent)", shape=ellipse];',
+      '  "review" [label="Review\\n(human)", shape=hexagon];',
+      '  "publish" [label="Publish\\n(system)", shape=box];',
+      '  "notify" [label="Notify\\n(slack)", shape=parallelogram];',
+      '  "draft" -> "review";',
+      '  "review" -> "publish";',
+      '  "publish" -> "notify";',
+      '  "review" -> "draft" [style=dashed, label="loop", constraint=false];',
+      '}'
+    ].join('\n'));
+  });
+
+  it('colour steps by where an instance stands', async () => {
+    const waiting = await simulateWorkflow(article, stubs);
+    const dropped = await simulateWorkflow(article, { ...stubs, responses: { review: 'drop' } });
+
+    expect(getStepStatuses(article, waiting.state, waiting.pendingInputs)).toEqual({
+      draft: 'completed',
+      review: 'waiting_for_human',
+      publish: 'not_reached',
+      notify: 'not_reached'
+    });
+    expect(getStepStatuses(article, dropped.state)).toEqual({
+      draft: 'completed',
+      review: 'completed',
+      publish: 'skipped',
+      notify: 'skipped'
+    });
+
+    const mermaid = renderDiagram(article, 'mermaid', { state: waiting.state, pendingInputs: waiting.pendingInputs });
+    expect(mermaid).toContain('  classDef waiting_for_human fill:#fff59d,stroke:#555');
+    expect(mermaid).toContain('  class step1 waiting_for_human');
+    const dot = renderDiagram(article, 'dot', { state: dropped.state });
+    expect(dot).toContain('  "publish" [label="Publish\\n(system)", shape=box, fillcolor="#eeeeee", tooltip="skipped", style="filled,dashed"];');
+  });
+});
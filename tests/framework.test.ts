@@ -0,0 +1,378 @@
+import { HITLFramework, HITLInterface, HumanInput, InMemoryStateStore, ManualClock, StepHandler, WorkflowDefinition, WorkflowEvent, replayHistory, verifyReplay } from '../src/index.js';
+
+class ScriptedInterface extends HITLInterface {
+  requests: HumanInput[] = [];
+  failRequests = false;
+
+  async requestInput(workflowId: string, input: HumanInput): Promise<void> {
+    this.requests.push(input);
+    if (this.failRequests) throw new Error('inbox unavailable');
+  }
+
+  async notifyWorkflowComplete(): Promise<void> {}
+  async notifyWorkflowError(): Promise<void> {}
+
+  answer(workflowId: string, value: any, options?: Record<string, any>): void {
+    this.emit('human_input', workflowId, value, options);
+  }
+}
+
+const review: WorkflowDefinition = {
+  id: 'review',
+  name: 'Review',
+  steps: [{ id: 'approve', name: 'Approve', type: 'human', config: { prompt: 'Approve?', inputType: 'approval' } }]
+};
+
+function createLogger() {
+  return { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+}
+
+async function settle(clock: ManualClock): Promise<void> {
+  for (let i = 0; i < 5; i++) await clock.advance(0);
+}
+
+describe('HITLFramework', () => {
+  it('logs interface answers the engine does not accept instead of throwing', async () => {
+    const clock = new ManualClock(0);
+    const logger = createLogger();
+    const hitl = new ScriptedInterface();
+    const framework = new HITLFramework(hitl, { clock, logger });
+    framework.registerWorkflow(review);
+
+    const instanceId = await framework.startWorkflow('review');
+    await settle(clock);
+    await framework.cancelWorkflow(instanceId, 'withdrawn');
+
+    hitl.answer(instanceId, 'approve');
+    await settle(clock);
+
+    expect(logger.warn).toHaveBeenCalledWith(`Answer for workflow instance ${instanceId} was not accepted:`, expect.any(Error));
+  });
+
+  it('logs failures of the interface itself', async () => {
+    const clock = new ManualClock(0);
+    const logger = createLogger();
+    const hitl = new ScriptedInterface();
+    hitl.failRequests = true;
+    const framework = new HITLFramework(hitl, { clock, logger });
+    framework.registerWorkflow(review);
+
+    const instanceId = await framework.startWorkflow('review');
+    await settle(clock);
+
+    expect(logger.error).toHaveBeenCalledWith(
+      `HITL interface failed while handling human_input_required for workflow instance ${instanceId}:`,
+      expect.objectContaining({ message: 'inbox unavailable' })
+    );
+  });
+});
+
+describe('parallel human inputs', () => {
+  const parallel: WorkflowDefinition = {
+    id: 'parallel',
+    name: 'Parallel',
+    steps: [
+      { id: 'legal', name: 'Legal', type: 'human', config: { prompt: 'Legal OK?' } },
+      { id: 'work', name: 'Work', type: 'work', config: {} },
+      { id: 'marketing', name: 'Marketing', type: 'human', config: { prompt: 'Marketing OK?' } }
+    ]
+  };
+  const instant: StepHandler = { execute: async step => ({ stepId: step.id, success: true }) };
+
+  it('completes once when both are answered at the same time', async () => {
+    const clock = new ManualClock(0);
+    const framework = new HITLFramework(undefined, { clock, logger: createLogger() });
+    framework.registerStepHandler('work', instant);
+    framework.registerWorkflow(parallel);
+    const completed = jest.fn();
+    framework.on('workflow_completed', completed);
+
+    const instanceId = await framework.startWorkflow('parallel');
+    await settle(clock);
+    const [legal, marketing] = framework.getPendingInput(instanceId);
+    await Promise.all([
+      framework.provideInput(instanceId, 'yes', { requestId: legal.requestId }),
+      framework.provideInput(instanceId, 'yes', { requestId: marketing.requestId })
+    ]);
+    await settle(clock);
+
+    expect(completed).toHaveBeenCalledTimes(1);
+    expect(framework.getWorkflowState(instanceId)!.completedSteps.sort()).toEqual(['legal', 'marketing', 'work']);
+  });
+
+  it('asks again for pending inputs of instances resumed while running', async () => {
+    const clock = new ManualClock(0);
+    const store = new InMemoryStateStore();
+    const before = new HITLFramework(undefined, { clock, store, logger: createLogger() });
+    // Still working when the process stops
+    before.registerStepHandler('work', { execute: () => new Promise(() => undefined) });
+    before.registerWorkflow(parallel);
+    const instanceId = await before.startWorkflow('parallel');
+    await settle(clock);
+    expect((await store.load(instanceId))!.state.status).toBe('running');
+
+    const hitl = new ScriptedInterface();
+    const after = new HITLFramework(hitl, { clock, store, logger: createLogger() });
+    after.registerStepHandler('work', instant);
+    after.registerWorkflow(parallel);
+    await after.resumeAll();
+
+    expect(hitl.requests.map(input => input.stepId).sort()).toEqual(['legal', 'marketing']);
+  });
+});
+
+describe('quorum approvals', () => {
+  const signoff = (timeout?: Record<string, any>): WorkflowDefinition => ({
+    id: 'signoff',
+    name: 'Sign-off',
+    steps: [{
+      id: 'approve',
+      name: 'Approve',
+      type: 'human',
+      config: { prompt: 'Approve?', inputType: 'approval', quorum: { approvers: ['ana', 'bo'], required: 'any' }, timeout }
+    }]
+  });
+
+  it('completes an any quorum once when approvers answer at the same time', async () => {
+    const clock = new ManualClock(0);
+    const framework = new HITLFramework(undefined, { clock, logger: createLogger() });
+    framework.registerWorkflow(signoff());
+    const completed = jest.fn();
+    framework.on('step_completed', completed);
+
+    const instanceId = await framework.startWorkflow('signoff');
+    await settle(clock);
+    const results = await Promise.allSettled([
+      framework.provideInput(instanceId, 'approve', { respondedBy: 'ana' }),
+      framework.provideInput(instanceId, 'approve', { respondedBy: 'bo' })
+    ]);
+    await settle(clock);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect(completed).toHaveBeenCalledTimes(1);
+    expect(framework.getWorkflowState(instanceId)!.stepData.approve.humanInput.responses).toHaveLength(1);
+  });
+
+  it('rejects escalating a quorum step on timeout', () => {
+    const framework = new HITLFramework(undefined, { logger: createLogger() });
+
+    expect(() => framework.registerWorkflow(signoff({ afterMs: 1000, action: 'escalate', escalateTo: ['carol'] })))
+      .toThrow('quorum inputs can only time out with remind or fail');
+  });
+});
+
+describe('unexpected exceptions', () => {
+  it('fail the instance instead of leaving it running', async () => {
+    const clock = new ManualClock(0);
+    const framework = new HITLFramework(undefined, { clock, logger: createLogger() });
+    framework.registerWorkflow({
+      id: 'two-steps',
+      name: 'Two Steps',
+      steps: [
+        { id: 'first', name: 'First', type: 'system', config: {} },
+        { id: 'second', name: 'Second', type: 'system', config: {}, dependencies: ['first'] }
+      ]
+    });
+    framework.on('step_completed', () => {
+      throw new Error('listener broke');
+    });
+    const failed = jest.fn();
+    framework.on('workflow_failed', failed);
+
+    const instanceId = await framework.startWorkflow('two-steps');
+    await settle(clock);
+
+    const state = framework.getWorkflowState(instanceId)!;
+    expect(state.status).toBe('failed');
+    expect(state.completedSteps).toEqual(['first']);
+    expect(failed).toHaveBeenCalledWith(expect.objectContaining({ data: { stepId: 'first', error: 'listener broke' } }));
+  });
+});
+
+describe('assigned inputs', () => {
+  const assigned = (timeout?: Record<string, any>): WorkflowDefinition => ({
+    id: 'assigned',
+    name: 'Assigned',
+    steps: [{ id: 'approve', name: 'Approve', type: 'human', config: { prompt: 'Approve?', inputType: 'approval', assignees: ['lee', 'group:legal'], timeout } }]
+  });
+
+  async function start(timeout?: Record<string, any>) {
+    const clock = new ManualClock(0);
+    const framework = new HITLFramework(undefined, { clock, logger: createLogger() });
+    framework.registerWorkflow(assigned(timeout));
+    const instanceId = await framework.startWorkflow('assigned');
+    await settle(clock);
+    return { clock, framework, instanceId };
+  }
+
+  it('rejects answers from anyone but an assignee', async () => {
+    const { framework, instanceId } = await start();
+
+    await expect(framework.provideInput(instanceId, 'approve')).rejects.toThrow('is assigned to lee, group:legal');
+    await expect(framework.provideInput(instanceId, 'approve', { respondedBy: 'mallory', groups: ['sales'] })).rejects.toThrow('is assigned to lee, group:legal');
+    expect(framework.getPendingInput(instanceId)).toHaveLength(1);
+  });
+
+  it('accepts answers from assigned users and members of assigned groups', async () => {
+    const byUser = await start();
+    await byUser.framework.provideInput(byUser.instanceId, 'approve', { respondedBy: 'lee' });
+    await settle(byUser.clock);
+    expect(byUser.framework.getWorkflowState(byUser.instanceId)!.status).toBe('completed');
+
+    const byGroup = await start();
+    await byGroup.framework.provideInput(byGroup.instanceId, 'approve', { respondedBy: 'lin', groups: ['legal'] });
+    await settle(byGroup.clock);
+    expect(byGroup.framework.getWorkflowState(byGroup.instanceId)!.stepData.approve.respondedBy).toBe('lin');
+  });
+
+  it('keeps its assignees when a timeout escalates to nobody', async () => {
+    const clock = new ManualClock(0);
+    const framework = new HITLFramework(undefined, { clock, logger: createLogger() });
+    // Handlers can ask for input without going through the step config schema
+    framework.registerStepHandler('ask', {
+      execute: async step => ({
+        stepId: step.id,
+        success: true,
+        requiresHuman: { stepId: step.id, prompt: 'OK?', inputType: 'text', assignees: ['lee'], timeout: { afterMs: 1000, action: 'escalate' } }
+      })
+    });
+    framework.registerWorkflow({ id: 'ask', name: 'Ask', steps: [{ id: 'ask', name: 'Ask', type: 'ask', config: {} }] });
+    const instanceId = await framework.startWorkflow('ask');
+    await settle(clock);
+
+    await clock.advance(1000);
+    await settle(clock);
+
+    expect(framework.getPendingInput(instanceId)[0].assignees).toEqual(['lee']);
+    await expect(framework.provideInput(instanceId, 'yes', { respondedBy: 'mallory' })).rejects.toThrow('is assigned to lee');
+  });
+
+  it('still applies default answers on timeout', async () => {
+    const { clock, framework, instanceId } = await start({ afterMs: 1000, action: 'default', defaultValue: 'approve' });
+
+    await clock.advance(1000);
+    await settle(clock);
+
+    expect(framework.getWorkflowState(instanceId)!.status).toBe('completed');
+  });
+});
+
+describe('continuations', () => {
+  const reviewThenWork: WorkflowDefinition = {
+    id: 'review-then-work',
+    name: 'Review then Work',
+    steps: [
+      { id: 'review', name: 'Review', type: 'human', config: { prompt: 'Go?' } },
+      { id: 'work', name: 'Work', type: 'work', config: {}, dependencies: ['review'] }
+    ]
+  };
+
+  it('return from provideInput without waiting for the steps that follow', async () => {
+    const clock = new ManualClock(0);
+    const framework = new HITLFramework(undefined, { clock, logger: createLogger() });
+    framework.registerStepHandler('work', { execute: () => new Promise(() => undefined) });
+    framework.registerWorkflow(reviewThenWork);
+
+    const instanceId = await framework.startWorkflow('review-then-work');
+    await settle(clock);
+    await framework.provideInput(instanceId, 'go');
+
+    expect(framework.getWorkflowState(instanceId)!.completedSteps).toEqual(['review']);
+  });
+
+  it('count against the queue limits', async () => {
+    const clock = new ManualClock(0);
+    const framework = new HITLFramework(undefined, { clock, logger: createLogger(), queue: { maxActive: 1 } });
+    const finishWork: Array<() => void> = [];
+    framework.registerStepHandler('work', {
+      execute: step => new Promise(resolve => finishWork.push(() => resolve({ stepId: step.id, success: true })))
+    });
+    framework.registerWorkflow(reviewThenWork);
+
+    const first = await framework.startWorkflow('review-then-work');
+    const second = await framework.startWorkflow('review-then-work');
+    await settle(clock);
+    await framework.provideInput(first, 'go');
+    await framework.provideInput(second, 'go');
+    await settle(clock);
+
+    expect(finishWork).toHaveLength(1);
+    expect(framework.getQueueStats()).toEqual({ active: 1, queued: 1 });
+
+    finishWork[0]();
+    await settle(clock);
+
+    expect(framework.getWorkflowState(first)!.status).toBe('completed');
+    expect(finishWork).toHaveLength(2);
+  });
+});
+
+describe('retry backoff', () => {
+  const flakyWorkflow: WorkflowDefinition = {
+    id: 'flaky',
+    name: 'Flaky',
+    steps: [{ id: 'send', name: 'Send', type: 'flaky', config: {}, retry: { maxAttempts: 5, delayMs: 60000, backoff: 'fixed' } }]
+  };
+
+  function failingTimes(failures: number): StepHandler & { calls: number } {
+    const handler = {
+      calls: 0,
+      async execute(step: { id: string }) {
+        handler.calls++;
+        if (handler.calls <= failures) throw new Error('temporarily unavailable');
+        return { stepId: step.id, success: true };
+      }
+    };
+    return handler;
+  }
+
+  it('ends when the instance is cancelled and frees its queue slot', async () => {
+    const clock = new ManualClock(0);
+    const framework = new HITLFramework(undefined, { clock, logger: createLogger(), queue: { maxActive: 1 } });
+    framework.registerStepHandler('flaky', failingTimes(Infinity));
+    framework.registerWorkflow(flakyWorkflow);
+
+    const first = await framework.startWorkflow('flaky');
+    const second = await framework.startWorkflow('flaky');
+    await settle(clock);
+    expect(framework.getQueueStats()).toEqual({ active: 1, queued: 1 });
+
+    await framework.cancelWorkflow(first, 'withdrawn');
+    await settle(clock);
+
+    expect(framework.getWorkflowState(first)!.stepAttempts.send).toBe(1);
+    expect(framework.getWorkflowState(second)!.stepAttempts.send).toBe(1);
+    expect(framework.getQueueStats()).toEqual({ active: 1, queued: 0 });
+  });
+
+  it('stops retrying while the instance is suspended and picks up again on resume', async () => {
+    const clock = new ManualClock(0);
+    const handler = failingTimes(2);
+    const framework = new HITLFramework(undefined, { clock, logger: createLogger() });
+    framework.registerStepHandler('flaky', handler);
+    framework.registerWorkflow(flakyWorkflow);
+    const events: WorkflowEvent[] = [];
+    // Copied as emitted; event data can point at the live instance state
+    framework.on('workflow_event', event => events.push(structuredClone(event)));
+
+    const instanceId = await framework.startWorkflow('flaky');
+    await settle(clock);
+    await framework.suspendWorkflow(instanceId);
+    await clock.advance(60000);
+    await settle(clock);
+
+    expect(handler.calls).toBe(1);
+    expect(framework.getWorkflowState(instanceId)!.status).toBe('suspended');
+    expect(framework.getQueueStats()).toEqual({ active: 0, queued: 0 });
+
+    await framework.resumeWorkflow(instanceId);
+    await settle(clock);
+    await clock.advance(60000);
+    await settle(clock);
+
+    const state = framework.getWorkflowState(instanceId)!;
+    expect(state.status).toBe('completed');
+    expect(state.stepAttempts.send).toBe(3);
+    expect(verifyReplay(state, replayHistory(events))).toEqual([]);
+  });
+});
@@ -0,0 +1,115 @@
+import { HITLFramework, HITLInterface, HumanInput, ManualClock, WorkflowDefinition } from '../src/index.js';
+
+class RecordingInterface extends HITLInterface {
+  escalations: HumanInput[] = [];
+
+  async requestInput(): Promise<void> {}
+  async notifyWorkflowComplete(): Promise<void> {}
+  async notifyWorkflowError(): Promise<void> {}
+
+  async escalateInput(workflowId: string, input: HumanInput): Promise<void> {
+    this.escalations.push({ ...input });
+  }
+}
+
+const contract: WorkflowDefinition = {
+  id: 'contract',
+  name: 'Contract',
+  steps: [{ id: 'review', name: 'Review', type: 'human', config: { prompt: 'Sign?', inputType: 'approval', assignees: ['lee', 'group:legal'] } }]
+};
+
+const signoff: WorkflowDefinition = {
+  id: 'signoff',
+  name: 'Sign-off',
+  steps: [{ id: 'approve', name: 'Approve', type: 'human', config: { prompt: 'Approve?', inputType: 'approval', quorum: { approvers: ['ana', 'bo'] } } }]
+};
+
+const lee = { user: 'lee' };
+const lin = { user: 'lin', groups: ['legal'] };
+
+async function settle(clock: ManualClock): Promise<void> {
+  for (let i = 0; i < 5; i++) await clock.advance(0);
+}
+
+async function setup(workflowId = 'contract') {
+  const clock = new ManualClock(0);
+  const hitl = new RecordingInterface();
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  const framework = new HITLFramework(hitl, { clock, logger });
+  framework.registerWorkflow(contract);
+  framework.registerWorkflow(signoff);
+  const instanceId = await framework.startWorkflow(workflowId);
+  await settle(clock);
+  const [input] = framework.getPendingInput(instanceId);
+  return { clock, hitl, framework, instanceId, requestId: input.requestId! };
+}
+
+describe('review inbox', () => {
+  it('lists inputs for assigned users and members of assigned groups', async () => {
+    const { framework, instanceId } = await setup();
+
+    expect(framework.getInbox(lee).map(task => task.instanceId)).toEqual([instanceId]);
+    expect(framework.getInbox(lin)).toHaveLength(1);
+    expect(framework.getInbox({ user: 'mallory' })).toEqual([]);
+  });
+
+  it('keeps a claimed input to its claimant until it is released', async () => {
+    const { framework, instanceId, requestId } = await setup();
+
+    await framework.claimInput(instanceId, requestId, lin);
+
+    expect(framework.getInbox(lee)).toEqual([]);
+    await expect(framework.claimInput(instanceId, requestId, lee)).rejects.toThrow('already claimed by lin');
+    await expect(framework.provideInput(instanceId, 'approve', { respondedBy: 'lee' })).rejects.toThrow('is claimed by lin');
+    await expect(framework.releaseInput(instanceId, requestId, 'lee')).rejects.toThrow('is not claimed by lee');
+
+    await framework.releaseInput(instanceId, requestId, 'lin');
+
+    expect(framework.getInbox(lee)).toHaveLength(1);
+    await framework.provideInput(instanceId, 'approve', { respondedBy: 'lee' });
+  });
+
+  it('only lets assignees claim', async () => {
+    const { framework, instanceId, requestId } = await setup();
+
+    await expect(framework.claimInput(instanceId, requestId, { user: 'mallory' })).rejects.toThrow('mallory is not assigned');
+  });
+
+  it('hands reassigned inputs to the new assignees', async () => {
+    const { hitl, framework, instanceId, requestId } = await setup();
+    await framework.claimInput(instanceId, requestId, lee);
+
+    await framework.reassignInput(instanceId, requestId, ['lou'], 'admin');
+
+    const [input] = framework.getPendingInput(instanceId);
+    expect(input.assignees).toEqual(['lou']);
+    expect(input.claimedBy).toBeUndefined();
+    expect(hitl.escalations.map(escalated => escalated.assignees)).toEqual([['lou']]);
+    expect(framework.getInbox(lee)).toEqual([]);
+    await expect(framework.provideInput(instanceId, 'approve', { respondedBy: 'lee' })).rejects.toThrow('is assigned to lou');
+    await framework.provideInput(instanceId, 'approve', { respondedBy: 'lou' });
+  });
+
+  it('passes delegated inputs on with the claim', async () => {
+    const { hitl, framework, instanceId, requestId } = await setup();
+
+    await expect(framework.delegateInput(instanceId, requestId, { user: 'mallory' }, 'lou')).rejects.toThrow('mallory cannot delegate');
+    await framework.delegateInput(instanceId, requestId, lin, 'lou');
+
+    const [input] = framework.getPendingInput(instanceId);
+    expect(input.claimedBy).toBe('lou');
+    expect(input.delegatedBy).toBe('lin');
+    expect(hitl.escalations).toHaveLength(1);
+    await expect(framework.provideInput(instanceId, 'approve', { respondedBy: 'lin', groups: ['legal'] })).rejects.toThrow('is claimed by lou');
+    await framework.provideInput(instanceId, 'approve', { respondedBy: 'lou' });
+  });
+
+  it('does not claim, reassign or delegate quorum inputs', async () => {
+    const { framework, instanceId, requestId } = await setup('signoff');
+
+    await expect(framework.claimInput(instanceId, requestId, { user: 'ana' })).rejects.toThrow('cannot be claimed');
+    await expect(framework.reassignInput(instanceId, requestId, ['carol'])).rejects.toThrow('cannot be reassigned');
+    await expect(framework.delegateInput(instanceId, requestId, { user: 'ana' }, 'carol')).rejects.toThrow('cannot be delegated');
+    expect(framework.getPendingInput(instanceId)[0].assignees).toEqual(['ana', 'bo']);
+  });
+});
@@ -0,0 +1,107 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileStateStore, HITLFramework, ManualClock, WorkflowDefinition } from '../src/index.js';
+
+const review: WorkflowDefinition = {
+  id: 'review',
+  name: 'Review',
+  steps: [
+    { id: 'draft', name: 'Draft', type: 'system', config: {} },
+    { id: 'approve', name: 'Approve', type: 'human', config: { prompt: 'Approve?', inputType: 'approval' }, dependencies: ['draft'] },
+    { id: 'publish', name: 'Publish', type: 'system', config: {}, dependencies: ['approve'] }
+  ]
+};
+
+function createLogger() {
+  return { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+}
+
+// File writes need real event-loop turns, not just the manual clock
+async function waitFor(check: () => boolean | Promise<boolean>): Promise<void> {
+  for (let i = 0; i < 200 && !(await check()); i++) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  expect(await check()).toBe(true);
+}
+
+describe('FileStateStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'workflow-states-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('round-trips instance records with their dates', async () => {
+    const store = new FileStateStore(directory);
+    const clock = new ManualClock(new Date('2026-03-01T10:00:00Z'));
+    const framework = new HITLFramework(undefined, { clock, store, logger: createLogger() });
+    framework.registerWorkflow(review);
+
+    const instanceId = await framework.startWorkflow('review', { topic: 'Pricing' });
+    await waitFor(async () => (await store.load(instanceId))?.state.status === 'paused');
+
+    const record = (await new FileStateStore(directory).load(instanceId))!;
+    expect(record.state).toEqual(framework.getWorkflowState(instanceId));
+    expect(record.state.createdAt).toEqual(new Date('2026-03-01T10:00:00Z'));
+    expect(record.pendingHumanInputs!.map(input => input.stepId)).toEqual(['approve']);
+    expect((await store.loadAll()).map(loaded => loaded.state.id)).toEqual([instanceId]);
+
+    await store.delete(instanceId);
+    expect(await store.load(instanceId)).toBeUndefined();
+    expect(await store.loadEvents(instanceId)).toEqual([]);
+  });
+
+  it('keeps the event log in emission order', async () => {
+    const store = new FileStateStore(directory);
+    const clock = new ManualClock(0);
+    const framework = new HITLFramework(undefined, { clock, store, logger: createLogger() });
+    framework.registerWorkflow(review);
+
+    const instanceId = await framework.startWorkflow('review');
+    await waitFor(async () => (await store.loadEvents(instanceId)).length === 5);
+
+    const events = await store.loadEvents(instanceId);
+    expect(events.map(event => event.type)).toEqual([
+      'workflow_started', 'step_started', 'step_completed', 'step_started', 'human_input_required'
+    ]);
+    expect(events[0].timestamp).toBeInstanceOf(Date);
+  });
+
+  it('reports an empty store before anything is written', async () => {
+    const store = new FileStateStore(path.join(directory, 'missing'));
+
+    expect(await store.loadAll()).toEqual([]);
+    expect(await store.loadTriggers()).toEqual([]);
+  });
+
+  it('brings a paused instance back after a restart and finishes it', async () => {
+    const clock = new ManualClock(0);
+    const store = new FileStateStore(directory);
+    const before = new HITLFramework(undefined, { clock, store, logger: createLogger() });
+    before.registerWorkflow(review);
+    const instanceId = await before.startWorkflow('review');
+    await waitFor(async () => (await store.load(instanceId))?.pendingHumanInputs?.length === 1);
+
+    const after = new HITLFramework(undefined, { clock, store: new FileStateStore(directory), logger: createLogger() });
+    after.registerWorkflow(review);
+    expect(await after.resumeAll()).toEqual([instanceId]);
+
+    const state = after.getWorkflowState(instanceId)!;
+    expect(state.status).toBe('paused');
+    expect(state.completedSteps).toEqual(['draft']);
+    expect(after.getPendingInput(instanceId).map(input => input.stepId)).toEqual(['approve']);
+
+    await after.provideInput(instanceId, 'approve');
+    await waitFor(async () => (await store.load(instanceId))?.state.status === 'completed');
+
+    expect(after.getWorkflowState(instanceId)!.status).toBe('completed');
+    const stored = await store.load(instanceId);
+    expect(stored!.state.completedSteps).toEqual(['draft', 'approve', 'publish']);
+    expect(stored!.pendingHumanInputs).toEqual([]);
+  });
+});
@@ -0,0 +1,121 @@
+import { HITLFramework, ManualClock, QualityEngine, QualityResult, QUALITY_REVIEW_OPTIONS, WorkflowDefinition } from '../src/index.js';
+
+const newsletter: WorkflowDefinition = {
+  id: 'newsletter',
+  name: 'Newsletter',
+  steps: [
+    { id: 'write', name: 'Write', type: 'agent', config: {} },
+    {
+      id: 'gate',
+      name: 'Gate',
+      type: 'quality_check',
+      config: { contentStep: 'write', contentPath: 'content', contentType: 'newsletter', qualityConfig: { threshold: 7 } },
+      dependencies: ['write'],
+      loop: { to: 'write', when: { path: 'gate.humanInput', equals: 'request_revision' } }
+    },
+    { id: 'send', name: 'Send', type: 'system', config: {}, dependencies: ['gate'], condition: { path: 'gate.humanInput', notEquals: 'reject' } }
+  ]
+};
+
+function createLogger() {
+  return { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+}
+
+async function settle(clock: ManualClock): Promise<void> {
+  for (let i = 0; i < 5; i++) await clock.advance(0);
+}
+
+function assessment(overallScore: number): QualityResult {
+  return {
+    overallScore,
+    threshold: 7,
+    passed: overallScore >= 7,
+    metrics: [{ name: 'readability', score: overallScore, weight: 1, category: 'basic', suggestions: ['Use shorter sentences'] }],
+    timestamp: new Date(0),
+    assessorTypes: ['readability']
+  };
+}
+
+// Each run of the gate gets the next score
+async function setup(...scores: number[]) {
+  const clock = new ManualClock(0);
+  const quality = new QualityEngine();
+  const assess = jest.spyOn(quality, 'assess');
+  for (const score of scores) assess.mockResolvedValueOnce(assessment(score));
+
+  const framework = new HITLFramework(undefined, { clock, quality, logger: createLogger() });
+  let drafts = 0;
+  framework.registerStepHandler('agent', {
+    execute: async step => ({ stepId: step.id, success: true, data: { content: `Draft ${++drafts}` } })
+  });
+  framework.registerWorkflow(newsletter);
+
+  const instanceId = await framework.startWorkflow('newsletter');
+  await settle(clock);
+  return { framework, clock, instanceId, assess };
+}
+
+describe('quality_check steps', () => {
+  it('let content that passes through without a review', async () => {
+    const { framework, instanceId, assess } = await setup(8);
+
+    const state = framework.getWorkflowState(instanceId)!;
+    expect(assess).toHaveBeenCalledWith({ text: 'Draft 1', type: 'newsletter' }, { threshold: 7 });
+    expect(state.status).toBe('completed');
+    expect(state.completedSteps).toEqual(['write', 'gate', 'send']);
+    expect(state.stepData.gate).toEqual({ quality: { ...assessment(8), timestamp: new Date(0) }, passed: true });
+  });
+
+  it('ask a reviewer about content that does not pass', async () => {
+    const { framework, instanceId } = await setup(5);
+
+    const [input] = framework.getPendingInput(instanceId);
+    expect(input).toMatchObject({
+      stepId: 'gate',
+      prompt: 'Gate: quality score 5 is below the threshold of 7',
+      inputType: 'choice',
+      options: QUALITY_REVIEW_OPTIONS,
+      metadata: { overallScore: 5, threshold: 7, suggestions: ['Use shorter sentences'] }
+    });
+    expect(framework.getWorkflowState(instanceId)!.stepData.gate.passed).toBe(false);
+  });
+
+  it('carry on when the reviewer approves anyway', async () => {
+    const { framework, clock, instanceId } = await setup(5);
+
+    await framework.provideInput(instanceId, 'approve_anyway');
+    await settle(clock);
+
+    const state = framework.getWorkflowState(instanceId)!;
+    expect(state.status).toBe('completed');
+    expect(state.completedSteps).toEqual(['write', 'gate', 'send']);
+    expect(state.stepData.gate).toMatchObject({ passed: false, humanInput: 'approve_anyway' });
+  });
+
+  it('send the draft back for a revision and assess it again', async () => {
+    const { framework, clock, instanceId, assess } = await setup(5, 9);
+
+    await framework.provideInput(instanceId, 'request_revision');
+    await settle(clock);
+
+    const state = framework.getWorkflowState(instanceId)!;
+    expect(assess).toHaveBeenLastCalledWith({ text: 'Draft 2', type: 'newsletter' }, { threshold: 7 });
+    expect(state.status).toBe('completed');
+    expect(state.iterations).toMatchObject({ write: 1, gate: 1 });
+    expect(state.stepData.gate).toMatchObject({ passed: true });
+    expect(state.skippedSteps).toEqual([]);
+  });
+
+  it('complete the gate on a rejection and skip steps guarded on it', async () => {
+    const { framework, clock, instanceId } = await setup(5);
+
+    await framework.provideInput(instanceId, 'reject');
+    await settle(clock);
+
+    const state = framework.getWorkflowState(instanceId)!;
+    expect(state.status).toBe('completed');
+    expect(state.completedSteps).toEqual(['write', 'gate']);
+    expect(state.skippedSteps).toEqual(['send']);
+    expect(state.stepData.gate).toMatchObject({ passed: false, humanInput: 'reject' });
+  });
+});
@@ -0,0 +1,113 @@
+import { HITLFramework, InMemoryStateStore, ManualClock, WorkflowDefinition } from '../src/index.js';
+
+const review: WorkflowDefinition = {
+  id: 'review',
+  name: 'Review',
+  steps: [{ id: 'approve', name: 'Approve', type: 'human', config: { prompt: 'Approve?' } }]
+};
+
+const batch: WorkflowDefinition = {
+  id: 'batch',
+  name: 'Batch',
+  steps: [{ id: 'run', name: 'Run', type: 'system', config: {} }]
+};
+
+async function settle(clock: ManualClock): Promise<void> {
+  for (let i = 0; i < 5; i++) await clock.advance(0);
+}
+
+// Five reviews a minute apart (two of them at the same time) and two batches
+async function setup(store = new InMemoryStateStore(), idPrefix = 'id') {
+  const clock = new ManualClock(new Date('2026-01-01T00:00:00Z'));
+  let nextId = 0;
+  const framework = new HITLFramework(undefined, {
+    clock,
+    store,
+    logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+    idGenerator: () => `${idPrefix}-${String(++nextId).padStart(2, '0')}`
+  });
+  framework.registerWorkflow(review);
+  framework.registerWorkflow(batch);
+
+  const ids: Record<string, string> = {};
+  for (const name of ['r1', 'r2', 'b1', 'r3', 'r4', 'b2', 'r5']) {
+    ids[name] = await framework.startWorkflow(name.startsWith('r') ? 'review' : 'batch');
+    await settle(clock);
+    if (name !== 'r3') await clock.advance(60_000);
+  }
+  return { framework, ids, clock };
+}
+
+describe('listInstances', () => {
+  it('pages through every match with cursors, newest first', async () => {
+    const { framework, ids } = await setup();
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+    do {
+      const page = await framework.listInstances({ workflowId: 'review', limit: 2, cursor });
+      expect(page.total).toBe(5);
+      seen.push(...page.instances.map(state => state.id));
+      cursor = page.nextCursor;
+      pages++;
+    } while (cursor);
+
+    expect(pages).toBe(3);
+    // r3 and r4 were created at the same time; the id breaks the tie
+    expect(seen).toEqual([ids.r5, ids.r4, ids.r3, ids.r2, ids.r1]);
+  });
+
+  it('sorts oldest first and by last update on request', async () => {
+    const { framework, ids, clock } = await setup();
+    await framework.provideInput(ids.r1, 'done');
+    await settle(clock);
+
+    const oldest = await framework.listInstances({ order: 'asc', limit: 3 });
+    expect(oldest.instances.map(state => state.id)).toEqual([ids.r1, ids.r2, ids.b1]);
+
+    const updated = await framework.listInstances({ sortBy: 'updatedAt', limit: 1 });
+    expect(updated.instances[0].id).toBe(ids.r1);
+  });
+
+  it('filters by workflow, status, current step and time', async () => {
+    const { framework, ids } = await setup();
+    const idsOf = async (query: Parameters<typeof framework.listInstances>[0]) =>
+      (await framework.listInstances({ ...query, order: 'asc' })).instances.map(state => state.id);
+
+    expect(await idsOf({ workflowId: ['batch'] })).toEqual([ids.b1, ids.b2]);
+    expect(await idsOf({ status: 'completed' })).toEqual([ids.b1, ids.b2]);
+    expect(await idsOf({ status: ['paused', 'completed'], currentStepId: 'approve' })).toEqual([ids.r1, ids.r2, ids.r3, ids.r4, ids.r5]);
+    expect(await idsOf({
+      createdAfter: new Date('2026-01-01T00:02:00Z'),
+      createdBefore: new Date('2026-01-01T00:04:00Z')
+    })).toEqual([ids.b1, ids.r3, ids.r4]);
+  });
+
+  it('includes instances only found in the store', async () => {
+    const store = new InMemoryStateStore();
+    await setup(store, 'earlier');
+    const { framework } = await setup(store);
+
+    expect((await framework.listInstances()).total).toBe(14);
+    expect(await framework.countInstances({ workflowId: 'batch' })).toEqual({ completed: 4 });
+  });
+
+  it('rejects bad cursors and page sizes', async () => {
+    const { framework } = await setup();
+
+    await expect(framework.listInstances({ cursor: 'not-a-cursor' })).rejects.toThrow('Invalid cursor not-a-cursor');
+    await expect(framework.listInstances({ limit: 0 })).rejects.toThrow('Invalid page size 0');
+  });
+});
+
+describe('countInstances', () => {
+  it('counts matching instances per status', async () => {
+    const { framework, ids, clock } = await setup();
+    await framework.cancelWorkflow(ids.r2, 'duplicate');
+    await settle(clock);
+
+    expect(await framework.countInstances()).toEqual({ paused: 4, completed: 2, cancelled: 1 });
+    expect(await framework.countInstances({ workflowId: 'review', status: ['paused', 'cancelled'] })).toEqual({ paused: 4, cancelled: 1 });
+  });
+});
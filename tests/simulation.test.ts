@@ -0,0 +1,182 @@
+import { simulateWorkflow, replayHistory, verifyReplay, WorkflowDefinition, StepHandler } from '../src/index.js';
+
+const draftAndReview: WorkflowDefinition = {
+  id: 'draft-and-review',
+  name: 'Draft and Review',
+  steps: [
+    { id: 'draft', name: 'Draft', type: 'agent', config: {} },
+    {
+      id: 'review',
+      name: 'Review',
+      type: 'human',
+      config: { prompt: 'Publish?', inputType: 'choice', options: ['publish', 'revise'] },
+      dependencies: ['draft'],
+      loop: { to: 'draft', when: { path: 'review.humanInput', equals: 'revise' } }
+    },
+    { id: 'publish', name: 'Publish', type: 'system', config: {}, dependencies: ['review'] }
+  ]
+};
+
+describe('simulateWorkflow', () => {
+  it('loops back while the reviewer asks for revisions', async () => {
+    const result = await simulateWorkflow(draftAndReview, {
+      agentOutputs: { draft: (step, state) => ({ text: `draft ${state.iterations.draft || 0}` }) },
+      responses: { review: (input, request) => (request.attempt < 3 ? 'revise' : 'publish') }
+    });
+
+    expect(result.state.status).toBe('completed');
+    expect(result.requests.map(request => request.response)).toEqual(['revise', 'revise', 'publish']);
+    expect(result.state.iterations.draft).toBe(2);
+    expect(result.state.stepData.draft).toEqual({ text: 'draft 2' });
+    // Publish only ran once the reviews were done
+    expect(result.state.iterations.publish).toBeUndefined();
+    expect(result.state.stepData.$history.publish).toHaveLength(1);
+  });
+
+  it('answers quorum inputs per approver', async () => {
+    const signoff: WorkflowDefinition = {
+      id: 'signoff',
+      name: 'Sign-off',
+      steps: [{
+        id: 'approve',
+        name: 'Approve',
+        type: 'human',
+        config: { prompt: 'Approve?', inputType: 'approval', quorum: { approvers: ['ana', 'bo', 'cy'], required: 2 } }
+      }]
+    };
+
+    const result = await simulateWorkflow(signoff, { responses: { approve: { ana: 'approve', bo: 'reject', cy: 'approve' } } });
+
+    expect(result.state.status).toBe('completed');
+    expect(result.state.stepData.approve.humanInput.decision).toBe('approve');
+    expect(result.state.stepData.approve.humanInput.responses.map((response: any) => [response.respondedBy, response.decision]))
+      .toEqual([['ana', 'approve'], ['bo', 'reject'], ['cy', 'approve']]);
+    expect(result.events.filter(event => event.type === 'approval_received')).toHaveLength(3);
+  });
+
+  it('answers assigned inputs as an assignee', async () => {
+    const legalReview: WorkflowDefinition = {
+      id: 'legal-review',
+      name: 'Legal Review',
+      steps: [{ id: 'review', name: 'Review', type: 'human', config: { prompt: 'OK?', inputType: 'approval', assignees: ['group:legal'] } }]
+    };
+
+    const result = await simulateWorkflow(legalReview, { responses: { review: 'approve' } });
+
+    expect(result.state.status).toBe('completed');
+    expect(result.state.stepData.review.respondedBy).toBe('simulation');
+  });
+
+  it('re-prompts when an answer does not fit the input', async () => {
+    const result = await simulateWorkflow(draftAndReview, {
+      agentOutputs: { draft: { text: 'draft' } },
+      responses: { review: (input, request) => (request.attempt === 1 ? 'maybe' : 'publish') }
+    });
+
+    expect(result.state.status).toBe('completed');
+    expect(result.requests[0].rejected).toEqual(['Expected one of: publish, revise']);
+  });
+
+  it('leaves unanswered inputs pending', async () => {
+    const result = await simulateWorkflow(draftAndReview, { agentOutputs: { draft: { text: 'draft' } } });
+
+    expect(result.state.status).toBe('paused');
+    expect(result.pendingInputs.map(input => input.stepId)).toEqual(['review']);
+  });
+
+  it('fails agent steps without a stubbed output', async () => {
+    const result = await simulateWorkflow(draftAndReview);
+
+    expect(result.state.status).toBe('failed');
+    expect(result.events.find(event => event.type === 'workflow_failed')?.data.error).toContain('No stubbed output for agent step draft');
+  });
+
+  it('moves the clock through delays and retry backoff', async () => {
+    let calls = 0;
+    const flaky: StepHandler = {
+      async execute(step) {
+        calls++;
+        if (calls < 3) throw new Error('temporarily unavailable');
+        return { stepId: step.id, success: true, data: { calls } };
+      }
+    };
+
+    const result = await simulateWorkflow({
+      id: 'timers',
+      name: 'Timers',
+      steps: [
+        { id: 'wait', name: 'Wait', type: 'delay', config: { delayMs: 60 * 60 * 1000 } },
+        { id: 'send', name: 'Send', type: 'flaky', config: {}, dependencies: ['wait'], retry: { maxAttempts: 3, delayMs: 1000 } }
+      ]
+    }, { stepHandlers: { flaky } });
+
+    expect(result.state.status).toBe('completed');
+    expect(result.state.stepAttempts.send).toBe(3);
+    expect(result.durationMs).toBe(60 * 60 * 1000 + 2000);
+  });
+
+  it('applies timeout actions to unanswered inputs', async () => {
+    const result = await simulateWorkflow({
+      id: 'deadline',
+      name: 'Deadline',
+      steps: [{
+        id: 'approve',
+        name: 'Approve',
+        type: 'human',
+        config: { prompt: 'Approve?', inputType: 'approval', timeout: { afterMs: 86400000, action: 'default', defaultValue: 'approve' } }
+      }]
+    });
+
+    expect(result.state.status).toBe('completed');
+    expect(result.state.stepData.approve.humanInput).toEqual({ decision: 'approve' });
+    expect(result.durationMs).toBe(86400000);
+  });
+
+  it('undoes completed steps in reverse order when a later step fails', async () => {
+    const undone: string[] = [];
+    const undo: StepHandler = {
+      async execute(step) {
+        undone.push(step.config.target);
+        return { stepId: step.id, success: true };
+      }
+    };
+
+    const result = await simulateWorkflow({
+      id: 'booking',
+      name: 'Booking',
+      steps: [
+        { id: 'hotel', name: 'Hotel', type: 'agent', config: {}, compensation: { type: 'undo', config: { target: 'hotel' } } },
+        { id: 'flight', name: 'Flight', type: 'agent', config: {}, dependencies: ['hotel'], compensation: { type: 'undo', config: { target: 'flight' } } },
+        { id: 'pay', name: 'Pay', type: 'agent', config: {}, dependencies: ['flight'] }
+      ]
+    }, { agentOutputs: { hotel: 'H1', flight: 'F1' }, stepHandlers: { undo } });
+
+    expect(result.state.status).toBe('compensated');
+    expect(undone).toEqual(['flight', 'hotel']);
+    expect(Object.keys(result.state.compensations)).toEqual(['flight', 'hotel']);
+  });
+
+  it('gives the same trace for the same script', async () => {
+    const options = {
+      input: { topic: 'release notes' },
+      agentOutputs: { draft: { text: 'draft' } },
+      responses: { review: (input: any, request: any) => (request.attempt === 1 ? 'revise' : 'publish') }
+    };
+
+    const first = await simulateWorkflow(draftAndReview, options);
+    const second = await simulateWorkflow(draftAndReview, options);
+
+    expect(second.events).toEqual(first.events);
+    expect(options.input).toEqual({ topic: 'release notes' });
+  });
+
+  it('records a history that replays to the final state', async () => {
+    const result = await simulateWorkflow(draftAndReview, {
+      agentOutputs: { draft: { text: 'draft' } },
+      responses: { review: (input, request) => (request.attempt === 1 ? 'revise' : 'publish') }
+    });
+
+    const history = result.events.filter(event => event.workflowId === result.instanceId);
+    expect(verifyReplay(result.state, replayHistory(history))).toEqual([]);
+  });
+});
@@ -0,0 +1,115 @@
+import { HITLFramework, ManualClock, simulateWorkflow, WorkflowDefinition } from '../src/index.js';
+
+const approveAmount: WorkflowDefinition = {
+  id: 'approve-amount',
+  name: 'Approve Amount',
+  steps: [{ id: 'check', name: 'Check', type: 'agent', config: {} }]
+};
+
+function withChildInput(input: Record<string, any>): WorkflowDefinition {
+  return {
+    id: 'expense',
+    name: 'Expense',
+    steps: [
+      { id: 'draft', name: 'Draft', type: 'agent', config: {} },
+      { id: 'approval', name: 'Approval', type: 'workflow', config: { workflowId: 'approve-amount', input }, dependencies: ['draft'] }
+    ]
+  };
+}
+
+async function childInput(input: Record<string, any>) {
+  const result = await simulateWorkflow(withChildInput(input), {
+    input: { amount: 120, currency: 'EUR' },
+    agentOutputs: { draft: { title: 'Team dinner' }, check: { ok: true } },
+    workflows: [approveAmount]
+  });
+  expect(result.state.status).toBe('completed');
+  const started = result.events.filter(event => event.type === 'workflow_started' && event.data.parentInstanceId);
+  return started[0].data.state.input;
+}
+
+describe('sub-workflow input', () => {
+  it('takes templated values as resolved', async () => {
+    expect(await childInput({ amount: '{{ input.amount }}', label: '{{ steps.draft.data.title }} ({{ input.currency }})' }))
+      .toEqual({ amount: 120, label: 'Team dinner (EUR)' });
+  });
+
+  it('passes literal values through', async () => {
+    expect(await childInput({ limit: 500, tags: ['travel'] })).toEqual({ limit: 500, tags: ['travel'] });
+  });
+
+  it('still reads plain strings as paths into the parent step data', async () => {
+    expect(await childInput({ title: 'draft.title' })).toEqual({ title: 'Team dinner' });
+  });
+});
+
+describe('sub-workflows', () => {
+  const legalReview: WorkflowDefinition = {
+    id: 'legal-review',
+    name: 'Legal Review',
+    steps: [
+      { id: 'check', name: 'Check', type: 'agent', config: {} },
+      { id: 'sign', name: 'Sign', type: 'human', config: { prompt: 'Sign?', inputType: 'approval' }, dependencies: ['check'] }
+    ]
+  };
+  const contract: WorkflowDefinition = {
+    id: 'contract',
+    name: 'Contract',
+    steps: [
+      { id: 'legal', name: 'Legal', type: 'workflow', config: { workflowId: 'legal-review' } },
+      { id: 'send', name: 'Send', type: 'system', config: {}, dependencies: ['legal'] }
+    ]
+  };
+
+  it('complete the parent step with the child output', async () => {
+    const result = await simulateWorkflow(contract, {
+      agentOutputs: { check: { clauses: 12 } },
+      responses: { sign: 'approve' },
+      workflows: [legalReview]
+    });
+
+    expect(result.state.status).toBe('completed');
+    const childId = result.state.childInstances.legal;
+    expect(result.state.stepData.legal).toEqual({
+      childInstanceId: childId,
+      output: { check: { clauses: 12 }, sign: expect.objectContaining({ humanInput: { decision: 'approve' } }) }
+    });
+    expect(result.events.filter(event => event.workflowId === childId).map(event => event.type)).toContain('workflow_completed');
+  });
+
+  it('fail the parent step when the child fails', async () => {
+    // No stub for the child's agent step
+    const result = await simulateWorkflow(contract, { responses: { sign: 'approve' }, workflows: [legalReview] });
+
+    const childId = result.state.childInstances.legal;
+    expect(result.state.status).toBe('failed');
+    expect(result.state.completedSteps).toEqual([]);
+    expect(result.events.find(event => event.type === 'workflow_failed' && event.workflowId === result.instanceId)!.data).toEqual({
+      stepId: 'legal',
+      error: `Child workflow ${childId} failed`
+    });
+  });
+
+  it('cancel their children when the parent is cancelled, and fail the parent when a child is', async () => {
+    const clock = new ManualClock(0);
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const framework = new HITLFramework(undefined, { clock, logger });
+    framework.registerStepHandler('agent', { execute: async step => ({ stepId: step.id, success: true }) });
+    framework.registerWorkflow(legalReview);
+    framework.registerWorkflow(contract);
+
+    const cancelledParent = await framework.startWorkflow('contract');
+    const failedParent = await framework.startWorkflow('contract');
+    for (let i = 0; i < 10; i++) await clock.advance(0);
+    const firstChild = framework.getWorkflowState(cancelledParent)!.childInstances.legal;
+    const secondChild = framework.getWorkflowState(failedParent)!.childInstances.legal;
+    expect(framework.getWorkflowState(firstChild)!.status).toBe('paused');
+
+    await framework.cancelWorkflow(cancelledParent, 'deal is off');
+    await framework.cancelWorkflow(secondChild, 'legal declined');
+    for (let i = 0; i < 10; i++) await clock.advance(0);
+
+    expect(framework.getWorkflowState(firstChild)!.status).toBe('cancelled');
+    expect(framework.getWorkflowState(failedParent)!.status).toBe('failed');
+  });
+});
@@ -0,0 +1,74 @@
+import { TriggerScheduler, InMemoryStateStore, systemClock, ManualClock, Scheduler, WorkflowTrigger } from '../src/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const silentLogger = { debug: () => undefined, info: () => undefined, warn: () => undefined, error: () => undefined };
+
+describe('systemClock', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(Date.UTC(2026, 0, 1, 12, 0)) });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('fires timers longer than setTimeout can hold only when they are due', () => {
+    const fired = jest.fn();
+    systemClock.setTimer(fired, 30 * DAY_MS);
+
+    jest.advanceTimersByTime(29 * DAY_MS);
+    expect(fired).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(DAY_MS);
+    expect(fired).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels long timers after they have been re-armed', () => {
+    const fired = jest.fn();
+    const handle = systemClock.setTimer(fired, 60 * DAY_MS);
+
+    jest.advanceTimersByTime(26 * DAY_MS);
+    systemClock.clearTimer(handle);
+    jest.advanceTimersByTime(40 * DAY_MS);
+    expect(fired).not.toHaveBeenCalled();
+  });
+
+  it('runs a trigger more than 25 days away once, when it is due', async () => {
+    const started: string[] = [];
+    const triggers = new TriggerScheduler({
+      store: new InMemoryStateStore(),
+      clock: systemClock,
+      logger: silentLogger,
+      start: async (trigger: WorkflowTrigger) => {
+        started.push(trigger.id);
+        return `instance-${started.length}`;
+      }
+    });
+
+    // 09:00 UTC on 1 February, 31 days out
+    await triggers.add({ id: 'monthly', workflowId: 'report', cron: '0 9 1 * *', utc: true });
+
+    await jest.advanceTimersByTimeAsync(30 * DAY_MS);
+    expect(started).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(DAY_MS);
+    expect(started).toEqual(['monthly']);
+    expect(triggers.list()[0].nextRunAt).toEqual(new Date(Date.UTC(2026, 2, 1, 9, 0)));
+    triggers.stop();
+  });
+});
+
+describe('Scheduler', () => {
+  it('reports failed tasks through its logger', async () => {
+    const clock = new ManualClock(0);
+    const logger = { ...silentLogger, error: jest.fn() };
+    const scheduler = new Scheduler(clock, logger);
+
+    scheduler.schedule('task', new Date(1000), () => {
+      throw new Error('boom');
+    });
+    await clock.advance(1000);
+
+    expect(logger.error).toHaveBeenCalledWith('Scheduled task task failed:', expect.objectContaining({ message: 'boom' }));
+  });
+});
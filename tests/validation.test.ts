@@ -0,0 +1,78 @@
+import { validateWorkflow, StepCondition, WorkflowDefinition } from '../src/index.js';
+
+function withCondition(condition: any): WorkflowDefinition {
+  return {
+    id: 'conditional',
+    name: 'Conditional',
+    steps: [
+      { id: 'review', name: 'Review', type: 'human', config: { prompt: 'Publish?' } },
+      { id: 'publish', name: 'Publish', type: 'system', config: {}, dependencies: ['review'], condition }
+    ]
+  };
+}
+
+describe('validateWorkflow', () => {
+  it('accepts nested conditions', () => {
+    const condition: StepCondition = {
+      all: [
+        { path: 'review.humanInput', in: ['publish', 'schedule'] },
+        { not: { any: [{ path: 'review.blocked', exists: true }, { path: 'review.flag', equals: 'hold' }] } }
+      ]
+    };
+
+    expect(validateWorkflow(withCondition(condition))).toEqual([]);
+  });
+
+  it('rejects conditions without a path', () => {
+    expect(validateWorkflow(withCondition({ equals: 'publish' })).map(issue => issue.message))
+      .toEqual(['steps.1.condition: must have a path, or all, any or not']);
+  });
+
+  it('rejects unknown operators, nested ones too', () => {
+    const issues = validateWorkflow(withCondition({ all: [{ path: 'review.humanInput', equal: 'publish' }] }));
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].path).toEqual(['steps', 1, 'condition', 'all', 0]);
+    expect(issues[0].message).toContain("'equal'");
+  });
+
+  it('checks loop conditions too', () => {
+    const workflow = withCondition(undefined);
+    workflow.steps[1].loop = { to: 'review', when: { path: 'review.humanInput', is: 'revise' } as any };
+
+    expect(validateWorkflow(workflow).map(issue => issue.path)).toEqual([['steps', 1, 'loop', 'when']]);
+  });
+
+  it('rejects misspelled step keys', () => {
+    const workflow = withCondition(undefined);
+    Object.assign(workflow.steps[1], { dependancies: ['review'], retry: { maxAttempts: 2, delay: 100 } });
+
+    expect(validateWorkflow(workflow).map(issue => issue.message)).toEqual([
+      "steps.1.retry: Unrecognized key(s) in object: 'delay'",
+      "steps.1: Unrecognized key(s) in object: 'dependancies'"
+    ]);
+  });
+});
+
+describe('human input timeouts', () => {
+  function withTimeout(timeout: any): WorkflowDefinition {
+    return {
+      id: 'timed',
+      name: 'Timed',
+      steps: [{ id: 'review', name: 'Review', type: 'human', config: { prompt: 'OK?', timeout } }]
+    };
+  }
+
+  it('need someone to escalate to', () => {
+    expect(validateWorkflow(withTimeout({ afterMs: 1000, action: 'escalate' })).map(issue => issue.message))
+      .toEqual(['Step review: config.timeout.escalateTo escalate needs at least one assignee in escalateTo']);
+    expect(validateWorkflow(withTimeout({ afterMs: 1000, action: 'escalate', escalateTo: [] }))).toHaveLength(1);
+    expect(validateWorkflow(withTimeout({ afterMs: 1000, action: 'escalate', escalateTo: ['head-of-legal'] }))).toEqual([]);
+  });
+
+  it('need a default value to answer with', () => {
+    expect(validateWorkflow(withTimeout({ afterMs: 1000, action: 'default' })).map(issue => issue.message))
+      .toEqual(['Step review: config.timeout.defaultValue default needs a defaultValue']);
+    expect(validateWorkflow(withTimeout({ afterMs: 1000, action: 'default', defaultValue: false }))).toEqual([]);
+  });
+});
@@ -0,0 +1,101 @@
+import { HITLFramework, ManualClock, WorkflowDefinition } from '../src/index.js';
+
+const v1: WorkflowDefinition = {
+  id: 'content',
+  name: 'Content',
+  steps: [
+    { id: 'review', name: 'Review', type: 'human', config: { prompt: 'Publish?' } },
+    { id: 'publish', name: 'Publish', type: 'system', config: {}, dependencies: ['review'] }
+  ]
+};
+
+const v2: WorkflowDefinition = {
+  ...v1,
+  version: 2,
+  steps: [
+    v1.steps[0],
+    { id: 'legal', name: 'Legal', type: 'system', config: {}, dependencies: ['review'] },
+    { id: 'publish', name: 'Publish', type: 'system', config: {}, dependencies: ['legal'] }
+  ]
+};
+
+async function settle(clock: ManualClock): Promise<void> {
+  for (let i = 0; i < 5; i++) await clock.advance(0);
+}
+
+function setup() {
+  const clock = new ManualClock(0);
+  const framework = new HITLFramework(undefined, { clock, logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } });
+  framework.registerWorkflow(v1);
+  return { clock, framework };
+}
+
+describe('workflow versions', () => {
+  it('keep instances on the version they started with', async () => {
+    const { clock, framework } = setup();
+    const onV1 = await framework.startWorkflow('content');
+    framework.registerWorkflow(v2);
+    const onV2 = await framework.startWorkflow('content');
+    const pinned = await framework.startWorkflow('content', {}, { version: 1 });
+    await settle(clock);
+
+    expect([onV1, onV2, pinned].map(id => framework.getWorkflowState(id)!.workflowVersion)).toEqual([1, 2, 1]);
+
+    for (const id of [onV1, onV2, pinned]) {
+      await framework.provideInput(id, 'yes');
+    }
+    await settle(clock);
+
+    expect(framework.getWorkflowState(onV1)!.completedSteps).toEqual(['review', 'publish']);
+    expect(framework.getWorkflowState(onV2)!.completedSteps).toEqual(['review', 'legal', 'publish']);
+    expect(framework.getWorkflowState(pinned)!.completedSteps).toEqual(['review', 'publish']);
+  });
+
+  it('cannot register the same version twice or start a missing one', async () => {
+    const { framework } = setup();
+
+    expect(() => framework.registerWorkflow(v1)).toThrow('version 1 is already registered');
+    await expect(framework.startWorkflow('content', {}, { version: 3 })).rejects.toThrow('Workflow content version 3 not found');
+  });
+
+  it('move a paused instance onto a newer version', async () => {
+    const { clock, framework } = setup();
+    const instanceId = await framework.startWorkflow('content');
+    await settle(clock);
+    framework.registerWorkflow(v2);
+    const migrated = jest.fn();
+    framework.on('workflow_migrated', migrated);
+
+    await framework.migrateInstance(instanceId, {
+      migrate: (state, fromVersion) => {
+        state.stepData.migratedFrom = fromVersion;
+      }
+    });
+    await framework.provideInput(instanceId, 'yes');
+    await settle(clock);
+
+    const state = framework.getWorkflowState(instanceId)!;
+    expect(state.workflowVersion).toBe(2);
+    expect(state.stepData.migratedFrom).toBe(1);
+    expect(state.completedSteps).toEqual(['review', 'legal', 'publish']);
+    expect(migrated).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ fromVersion: 1, toVersion: 2 }) }));
+  });
+
+  it('only migrate idle instances onto versions that have the steps they wait on', async () => {
+    const { clock, framework } = setup();
+    const instanceId = await framework.startWorkflow('content');
+    await settle(clock);
+    framework.registerWorkflow({
+      ...v1,
+      version: 2,
+      steps: [{ id: 'approve', name: 'Approve', type: 'human', config: { prompt: 'Publish?' } }]
+    });
+
+    await expect(framework.migrateInstance(instanceId)).rejects.toThrow('steps review do not exist there');
+    expect(framework.getWorkflowState(instanceId)!.workflowVersion).toBe(1);
+
+    await framework.provideInput(instanceId, 'yes');
+    await settle(clock);
+    await expect(framework.migrateInstance(instanceId)).rejects.toThrow('Only paused, waiting or suspended instances can be migrated');
+  });
+});